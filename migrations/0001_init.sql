@@ -0,0 +1,34 @@
+-- Migration number: 0001
+-- 产品、激活码使用情况与激活记录
+-- 时间字段均为 serverT 相对秒（见 src/config.ts ServerBaseTimestamp）
+
+CREATE TABLE IF NOT EXISTS products (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'active',
+    templates TEXT NOT NULL DEFAULT '[]',
+    features TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE TABLE IF NOT EXISTS codes (
+    code_hash TEXT PRIMARY KEY,
+    used INTEGER NOT NULL DEFAULT 0,
+    transfer_count INTEGER NOT NULL DEFAULT 0,
+    last_transfer_time INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS activations (
+    uuid TEXT PRIMARY KEY,
+    code_hash TEXT NOT NULL,
+    product_id TEXT,
+    binding TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    features TEXT NOT NULL DEFAULT '[]',
+    created_time INTEGER NOT NULL,
+    expiration_time INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_activations_code_hash ON activations (code_hash);
+CREATE INDEX IF NOT EXISTS idx_activations_product_id ON activations (product_id, created_time);
+CREATE INDEX IF NOT EXISTS idx_activations_binding ON activations (binding);
+CREATE INDEX IF NOT EXISTS idx_activations_created_time ON activations (created_time);
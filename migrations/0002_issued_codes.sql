@@ -0,0 +1,12 @@
+-- Migration number: 0002
+-- 已生成激活码登记（记录加密密钥 ID，用于密钥轮换时统计仍在使用旧密钥的激活码）
+
+CREATE TABLE IF NOT EXISTS issued_codes (
+    code_hash TEXT PRIMARY KEY,
+    key_id TEXT NOT NULL,
+    product_id TEXT NOT NULL,
+    created_time INTEGER NOT NULL,
+    expiration_time INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_issued_codes_key_id ON issued_codes (key_id, expiration_time);
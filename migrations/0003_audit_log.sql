@@ -0,0 +1,20 @@
+-- Migration number: 0003
+-- 审计日志（只追加）
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    time INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    actor TEXT NOT NULL,
+    ip TEXT NOT NULL,
+    product_id TEXT,
+    code_hash TEXT,
+    activation_uuid TEXT,
+    detail TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_time ON audit_log (time);
+CREATE INDEX IF NOT EXISTS idx_audit_log_product_id ON audit_log (product_id, time);
+CREATE INDEX IF NOT EXISTS idx_audit_log_code_hash ON audit_log (code_hash, time);
+CREATE INDEX IF NOT EXISTS idx_audit_log_activation_uuid ON audit_log (activation_uuid, time);
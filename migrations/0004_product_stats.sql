@@ -0,0 +1,14 @@
+-- Migration number: 0004
+-- 产品按日使用统计
+
+CREATE TABLE IF NOT EXISTS product_stats (
+    product_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    issued INTEGER NOT NULL DEFAULT 0,
+    redeemed INTEGER NOT NULL DEFAULT 0,
+    reauths INTEGER NOT NULL DEFAULT 0,
+    failures INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (product_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_stats_day ON product_stats (day);
@@ -0,0 +1,12 @@
+-- Migration number: 0005
+-- 产品试用策略与试用记录（每个设备绑定每个产品只能试用一次）
+
+ALTER TABLE products ADD COLUMN trial TEXT;
+
+CREATE TABLE IF NOT EXISTS trials (
+    product_id TEXT NOT NULL,
+    binding TEXT NOT NULL,
+    uuid TEXT NOT NULL,
+    created_time INTEGER NOT NULL,
+    PRIMARY KEY (product_id, binding)
+);
@@ -0,0 +1,15 @@
+-- Migration number: 0006
+-- 短激活码：条款保存在服务器，按规范化后的激活码哈希查找
+
+ALTER TABLE products ADD COLUMN code_format TEXT;
+
+CREATE TABLE IF NOT EXISTS short_codes (
+    code_hash TEXT PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    expiration_time INTEGER NOT NULL,
+    activation_duration INTEGER NOT NULL,
+    amount INTEGER NOT NULL,
+    features TEXT NOT NULL DEFAULT '[]',
+    mode TEXT NOT NULL DEFAULT 'standard',
+    created_time INTEGER NOT NULL
+);
@@ -0,0 +1,20 @@
+-- Migration number: 0007
+-- 激活码批次（激活码原文以 JSON 数组保存，供重新下载与整批吊销）
+
+CREATE TABLE IF NOT EXISTS batches (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL DEFAULT '',
+    product_id TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    format TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    expiration_time INTEGER NOT NULL,
+    activation_duration INTEGER NOT NULL,
+    amount INTEGER NOT NULL,
+    features TEXT NOT NULL DEFAULT '[]',
+    created_time INTEGER NOT NULL,
+    revoked_time INTEGER,
+    codes TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_product ON batches (product_id, created_time);
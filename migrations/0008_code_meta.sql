@@ -0,0 +1,12 @@
+-- Migration number: 0008
+-- 激活码附加信息（客户邮箱、订单号、备注等），以 JSON 对象保存，供客服按字段搜索
+
+CREATE TABLE IF NOT EXISTS code_meta (
+    code_hash TEXT PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    fields TEXT NOT NULL DEFAULT '{}',
+    batch_id TEXT,
+    created_time INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_meta_product ON code_meta (product_id, created_time);
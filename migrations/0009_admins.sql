@@ -0,0 +1,13 @@
+-- Migration number: 0009
+-- 管理员与其 API Key（只保存 SHA-256 哈希），权限范围与可操作产品以 JSON 数组保存
+
+CREATE TABLE IF NOT EXISTS admins (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    products TEXT,
+    created_time INTEGER NOT NULL,
+    created_by TEXT NOT NULL,
+    revoked_time INTEGER
+);
@@ -0,0 +1,10 @@
+-- Migration number: 0010
+-- 管理员 TOTP 两步验证登记（内置管理员的 admin_id 为 root）
+
+CREATE TABLE IF NOT EXISTS admin_totp (
+    admin_id TEXT PRIMARY KEY,
+    secret TEXT NOT NULL,
+    confirmed INTEGER NOT NULL DEFAULT 0,
+    last_step INTEGER NOT NULL DEFAULT 0,
+    created_time INTEGER NOT NULL
+);
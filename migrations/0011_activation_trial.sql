@@ -0,0 +1,6 @@
+-- Migration number: 0011
+-- 标记试用激活（不可续期或延长），已有的试用激活按 trials 表回填
+
+ALTER TABLE activations ADD COLUMN trial INTEGER NOT NULL DEFAULT 0;
+
+UPDATE activations SET trial = 1 WHERE uuid IN (SELECT uuid FROM trials);
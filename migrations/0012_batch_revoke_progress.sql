@@ -0,0 +1,6 @@
+-- Migration number: 0012
+-- 批次分段吊销的进度，已吊销的批次按全部完成回填
+
+ALTER TABLE batches ADD COLUMN revoked_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE batches SET revoked_count = count WHERE revoked_time IS NOT NULL;
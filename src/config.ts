@@ -1,10 +1,43 @@
 ﻿// 配置常量
 export const CONFIG = {
     RSA_KEY_UPDATE_TIME: 60 * 60 * 24,     // 24小时
+    RSA_KEY_GRACE_PERIOD: 60 * 60,           // 上一代 RSA 密钥在轮换后继续保留的时间（需大于 CLIENT_KEY_TTL）
     CLIENT_KEY_TTL: 300,                     // 客户端Key存活时间
     TIMESTAMP_TOLERANCE_MS: 60 * 1000,       // 时间戳容差
     MAX_QUANTITY: 100,                       // 单次最大生成数量
     MAX_VALIDITY_SECONDS: 365 * 24 * 60 * 60, // 最大有效期1年
+    MAX_TRANSFERS: 3,                        // 单个激活码最多解除激活（迁移设备）次数
+    TRANSFER_COOLDOWN: 7 * 24 * 60 * 60,     // 两次迁移之间的冷却时间（秒）
+    LOCK_LEASE_MS: 10 * 1000,                // 锁租约时长，持有者异常退出后自动释放
+    LOCK_WAIT_TIMEOUT_MS: 5 * 1000,          // 阻塞式获取锁的最长等待时间
+    OFFLINE_GRACE_SECONDS: 7 * 24 * 60 * 60, // 离线授权令牌的宽限期，超过后客户端须在线重新认证
+    FLOATING_LEASE_TTL: 120,                 // 浮动授权席位租约时长（秒），客户端须在到期前发送心跳
+    RATE_LIMITS: {                           // 限流规则：windowMs 内超过 limit 次即锁定
+        exchange: { limit: 30, windowMs: 60 * 1000 },        // 每 IP 密钥交换次数
+        session: { limit: 60, windowMs: 300 * 1000 },        // 每会话请求次数（会话有效期即 CLIENT_KEY_TTL）
+        authIp: { limit: 20, windowMs: 10 * 60 * 1000 },     // 每 IP 认证失败次数
+        authCode: { limit: 10, windowMs: 10 * 60 * 1000 },   // 每激活码认证失败次数
+        trial: { limit: 5, windowMs: 60 * 60 * 1000 },       // 每 IP 申请试用次数
+        adminLogin: { limit: 5, windowMs: 15 * 60 * 1000 },  // 每 IP 管理后台登录失败次数
+    },
+    RATE_LOCKOUT_BASE_MS: 60 * 1000,         // 首次锁定时长，之后每次锁定翻倍
+    RATE_LOCKOUT_MAX_MS: 24 * 60 * 60 * 1000, // 最长锁定时长
+    STATS_DEFAULT_DAYS: 30,                  // 使用统计默认查询天数
+    STATS_MAX_DAYS: 366,                     // 使用统计单次最多查询天数
+    BATCH_MAX_COUNT: 5000,                   // 单个批次最多生成的激活码数量（D1）
+    BATCH_MAX_COUNT_KV: 400,                 // KV 存储时单个批次最多生成的激活码数量（每个激活码最多 2 次写入，单次调用最多 1000 次 KV 操作）
+    BATCH_REVOKE_CHUNK: 500,                 // 每次请求最多吊销的批次激活码数量，其余由后续请求继续
+    BATCH_WRITE_CONCURRENCY: 50,             // 批量写入 KV 时的并发请求数
+    BATCH_LABEL_MAX_LENGTH: 64,              // 批次标签最大长度（KV 元数据上限 1024 字节）
+    CODE_META_MAX_BYTES: 512,                // 激活码附加信息 JSON 的最大字节数（KV 元数据上限 1024 字节）
+    CODE_SEARCH_DEFAULT_LIMIT: 50,           // 激活码搜索默认返回条数
+    CODE_SEARCH_MAX_LIMIT: 200,              // 激活码搜索最多返回条数
+    ADMIN_MAX_PRODUCTS: 50,                  // 管理员 Key 最多限定的产品数量（KV 元数据上限 1024 字节）
+    ADMIN_SESSION_TTL: 30 * 60,              // 管理后台登录会话有效期（秒），到期须重新登录
+    TOTP_ISSUER: "code-auth",                // 身份验证器中显示的签发方
+    TOTP_STEP: 30,                           // TOTP 时间步长（秒）
+    TOTP_DIGITS: 6,                          // TOTP 验证码位数
+    TOTP_WINDOW: 1,                          // 允许前后偏差的时间步数
 
 
     ServerBaseTimestamp: 1766000000
@@ -25,7 +25,7 @@ app.use('*', cors({
   ],
   credentials: true,
   allowMethods: ['GET', 'POST', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'X-Authorization-A'],
+  allowHeaders: ['Content-Type', 'X-Authorization-A', 'X-CSRF-Token'],
 }));
 app.use('*', secureHeaders({
   xContentTypeOptions: 'nosniff', // 防止浏览器嗅探 MIME 类型
@@ -40,4 +40,5 @@ app.route("/api/", api);
 app.route("/admin/su/", superAdmin);
 
 
+export { Coordinator } from "./tool/lock";
 export default app;
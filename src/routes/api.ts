@@ -1,34 +1,96 @@
 ﻿import { Hono, Context } from "hono";
-import { generateUUID, ensureRSAKeys } from "../tool/tool";
+import { generateUUID, ensureRSAKeys, getRSAKey, getClientIP } from "../tool/tool";
 import { CONFIG } from "../config";
 import { RSA } from "../tool/rsa";
+import { AES } from "../tool/aes";
+import { ECDH } from "../tool/ecdh";
+import { Base64 } from "../tool/base64";
+import { Hash } from "../tool/hash";
+import { Lock } from "../tool/lock";
 import { Code } from "../tool/code";
+import { License } from "../tool/license";
+import { createStore, IStore } from "../store/store";
+import { Keyring } from "../tool/keyring";
+import { RateLimit, RateRule } from "../tool/rateLimit";
+import { Audit, AuditInput } from "../tool/audit";
 
 // ═══════════════════════════════════════════════════════════
 //                        类型定义
 // ═══════════════════════════════════════════════════════════
 
+/** 密钥交换请求：v1 提供 RSA 公钥，v2 提供 ECDH P-256 公钥 */
 interface KeyExchangeRequest {
-    client_pub_key_pem: string;
+    client_pub_key_pem?: string;
+    client_ecdh_pub_key?: string;
 }
 
-interface AuthRegCodeRequest {
+/**
+ * 加密请求体
+ * v1：各 data_* 字段分别以服务器 RSA 公钥加密
+ * v2：data 为会话 AES-GCM 密钥加密的 JSON，内含明文 data_* 字段及一次性随机数 data_n
+ */
+interface EncryptedRequest {
     client_uuid: string;
+    key_id?: string;
+    data?: string;
+    [field: `data_${string}`]: string | undefined;
+}
+
+interface AuthRegCodeFields {
     data_c: string;
     data_i: string;
     data_b: string;
 }
 
-interface AuthAgainRequest {
-    client_uuid: string;
+interface AuthAgainFields {
     data_c: string;
     data_u: string;
     data_b?: string;
 }
 
-interface SessionContext {
-    serverPriPem: string;
-    clientPubPem: string;
+interface DeactivateFields {
+    data_c: string;
+    data_u: string;
+    data_b: string;
+}
+
+interface TrialFields {
+    data_i: string;
+    data_b: string;
+}
+
+interface RenewFields {
+    data_r: string;
+    data_c: string;
+    data_u: string;
+    data_b: string;
+}
+
+interface LeaseCheckoutFields {
+    data_c: string;
+    data_i: string;
+    data_b: string;
+}
+
+interface LeaseFields {
+    data_c: string;
+    data_l: string;
+    data_b: string;
+}
+
+/** 会话元数据：v1 记录服务器 RSA 密钥 ID，v2 标记版本（会话值为 AES 密钥） */
+interface SessionMetadata {
+    kid?: string;
+    version?: number;
+}
+
+/** 已解密的会话请求 */
+interface SessionRequest<T> {
+    fields: T;
+    /** 本次请求的一次性随机数 */
+    nonce: string;
+    /** 加密响应；extra 在 v1 中明文附带，在 v2 中与结果一并加密 */
+    seal(result: string, extra?: Record<string, string>): Promise<Record<string, unknown>>;
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -65,6 +127,15 @@ class ApiError extends Error {
     static timestampExpired(): ApiError {
         return new ApiError("Request timestamp expired", 400, "TIMESTAMP_EXPIRED");
     }
+
+    static replayed(): ApiError {
+        return new ApiError("Request already processed", 409, "REPLAYED");
+    }
+
+    static rateLimited(lockedUntil: number): ApiError {
+        const retryAfter = Math.max(Math.ceil((lockedUntil - Date.now()) / 1000), 1);
+        return new ApiError(`Too many requests. Retry after ${retryAfter}s`, 429, "RATE_LIMITED");
+    }
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -73,11 +144,19 @@ class ApiError extends Error {
 
 const api = new Hono<{ Bindings: CloudflareBindings }>();
 
+/** v2 请求随机数格式 */
+const NONCE_PATTERN = /^[\w-]{16,64}$/;
+
 /** 获取 KV 实例 */
 function getKV(c: Context<{ Bindings: CloudflareBindings }>): KVNamespace {
     return c.env.AUTH_KV;
 }
 
+/** 获取存储实例 */
+function getStore(c: Context<{ Bindings: CloudflareBindings }>): IStore {
+    return createStore(c.env);
+}
+
 /** 统一成功响应 */
 function ok(c: Context, data?: Record<string, unknown>): Response {
     return c.json({ status: "ok", ...data });
@@ -90,22 +169,138 @@ function fail(c: Context, error: ApiError | string, statusCode = 400): Response
     return c.json({ status: "error", message , code});
 }
 
-/** 验证会话有效性并获取密钥对 */
-async function getSessionContext(kv: KVNamespace, clientUuid: string): Promise<SessionContext> {
-    const [serverPriPem, clientPubPem] = await Promise.all([
-        kv.get("rsa_pri_key_pem"),
-        kv.get(`S:${clientUuid}`)
-    ]);
+/** 解密会话请求，按会话版本选择 v1（RSA 逐字段）或 v2（AES-GCM 整体），并拒绝重放 */
+async function openSession<T>(
+    c: Context<{ Bindings: CloudflareBindings }>,
+    body: EncryptedRequest,
+    required: (keyof T & string)[],
+    optional: (keyof T & string)[] = []
+): Promise<SessionRequest<T>> {
+    const kv = getKV(c);
+    validateRequiredFields(body, ["client_uuid"]);
 
-    if (!serverPriPem) {
-        throw ApiError.serverError("Server private key not found");
+    const { value, metadata } = await kv.getWithMetadata<SessionMetadata>(`S:${body.client_uuid}`);
+    if (!value) {
+        throw ApiError.sessionExpired();
     }
 
-    if (!clientPubPem) {
+    await enforceRateLimit(c, "session", body.client_uuid);
+
+    const session = metadata?.version === 2
+        ? await openSessionV2<T>(value, body, required)
+        : await openSessionV1<T>(kv, value, metadata, body, required, optional);
+
+    // 随机数只需在会话有效期内保持唯一，会话过期后请求本身已无法解密
+    const fresh = await Lock.useNonce(
+        c.env.COORDINATOR,
+        `N:${body.client_uuid}`,
+        session.nonce,
+        CONFIG.CLIENT_KEY_TTL * 1000
+    );
+    if (!fresh) {
+        throw ApiError.replayed();
+    }
+
+    return session;
+}
+
+/**
+ * v1：逐字段 RSA 解密（未传 key_id 时使用会话建立时的服务器密钥）
+ * 任何人都能用服务器公钥加密单独的随机数字段，因此以所有已发送密文字段的哈希作为随机数：
+ * RSA-OAEP 每次加密结果不同，客户端的每个请求都得到新的随机数，原样重放的请求则与原请求相同
+ */
+async function openSessionV1<T>(
+    kv: KVNamespace,
+    clientPubPem: string,
+    metadata: SessionMetadata | null,
+    body: EncryptedRequest,
+    required: string[],
+    optional: string[]
+): Promise<SessionRequest<T>> {
+    validateRequiredFields(body, required);
+
+    const kid = body.key_id || metadata?.kid;
+    const serverKey = kid ? await getRSAKey(kv, kid) : null;
+
+    // 服务器密钥已轮换出保留期，客户端需重新交换密钥
+    if (!serverKey) {
         throw ApiError.sessionExpired();
     }
 
-    return { serverPriPem, clientPubPem };
+    const record = body as unknown as Record<string, string | undefined>;
+    const names = [...required, ...optional.filter(f => record[f])];
+    const values = await Promise.all(names.map(f => decrypt(record[f]!, serverKey.priPem)));
+
+    return {
+        fields: Object.fromEntries(names.map((f, i) => [f, values[i]])) as T,
+        nonce: await Hash.sha256(JSON.stringify(names.map(f => [f, record[f]]))),
+        seal: async (result, extra) => ({ data: await encrypt(result, clientPubPem), ...extra })
+    };
+}
+
+/** v2：整体 AES-GCM 解密 JSON 请求体，data_n 为客户端生成的一次性随机数 */
+async function openSessionV2<T>(
+    sessionKeyB64: string,
+    body: EncryptedRequest,
+    required: string[]
+): Promise<SessionRequest<T>> {
+    validateRequiredFields(body, ["data"]);
+
+    const sessionKey = Base64.toArrayBuffer(sessionKeyB64);
+    let fields: unknown;
+    try {
+        fields = JSON.parse(await AES.decrypt(body.data!, sessionKey));
+    } catch (e) {
+        console.error("Decryption failed:", e);
+        throw ApiError.invalidFormat("encrypted data");
+    }
+
+    if (!fields || typeof fields !== "object" || Array.isArray(fields) ||
+        Object.values(fields).some(v => typeof v !== "string")) {
+        throw ApiError.invalidFormat("data");
+    }
+    validateRequiredFields(fields, [...required, "data_n"]);
+
+    const nonce = (fields as Record<string, string>).data_n;
+    if (!NONCE_PATTERN.test(nonce)) {
+        throw ApiError.invalidFormat("nonce");
+    }
+
+    return {
+        fields: fields as T,
+        nonce,
+        seal: async (result, extra) => ({
+            data: await AES.encryptToBase64(JSON.stringify({ result, ...extra }), sessionKey)
+        })
+    };
+}
+
+/** v2 密钥交换：ECDH 协商共享密钥，经 HKDF 派生会话 AES-GCM 密钥 */
+async function exchangeKeyV2(kv: KVNamespace, clientEcdhPubKey: string): Promise<Record<string, unknown>> {
+    let clientKey: CryptoKey;
+    try {
+        clientKey = await ECDH.importPublicKey(clientEcdhPubKey);
+    } catch {
+        throw ApiError.invalidFormat("client ECDH public key");
+    }
+
+    const serverKeyPair = await ECDH.generateKeyPair();
+    const sharedSecret = await ECDH.deriveSharedSecret(serverKeyPair.privateKey, clientKey);
+
+    // 以 client_uuid 作为 HKDF 盐值，使每个会话密钥互不相同
+    const clientUuid = generateUUID();
+    const sessionKey = await AES.deriveKey(sharedSecret, clientUuid, AES.CRYPTO_CONFIG.SESSION_HKDF_INFO);
+
+    await kv.put(`S:${clientUuid}`, Base64.fromBuffer(sessionKey), {
+        expirationTtl: CONFIG.CLIENT_KEY_TTL,
+        metadata: { version: 2 }
+    });
+
+    return {
+        client_uuid: clientUuid,
+        version: 2,
+        server_ecdh_pub_key: await ECDH.exportPublicKey(serverKeyPair.publicKey)
+    };
 }
 
 /** RSA 解密封装 */
@@ -153,9 +348,77 @@ function validateTimestamp(timestamp: number): void {
     }
 }
 
-/** 构建认证结果字符串 */
-function buildAuthResult(success: boolean, uuid: string, remaining: number): string {
-    return `${success}:${uuid}:${remaining}`;
+/** 构建认证结果字符串 (格式: success:uuid:remaining:feature1,feature2) */
+function buildAuthResult(success: boolean, uuid: string, remaining: number, features: string[] = []): string {
+    return `${success}:${uuid}:${remaining}:${features.join(",")}`;
+}
+
+/** 构建试用结果字符串 (格式: success:trialCode:uuid:expirationTime:feature1,feature2) */
+function buildTrialResult(
+    success: boolean,
+    code: string,
+    uuid: string,
+    expirationTime: number,
+    features: string[] = []
+): string {
+    return `${success}:${code}:${uuid}:${expirationTime}:${features.join(",")}`;
+}
+
+/** 构建解除激活结果字符串 */
+function buildDeactivateResult(success: boolean, remaining: number, transfersLeft: number): string {
+    return `${success}:${remaining}:${transfersLeft}`;
+}
+
+/** 构建席位租约结果字符串 (格式: success:leaseId:ttl:feature1,feature2) */
+function buildLeaseResult(success: boolean, leaseId: string, ttl: number, features: string[] = []): string {
+    return `${success}:${leaseId}:${ttl}:${features.join(",")}`;
+}
+
+/** 计数一次，超出限制时拒绝请求 */
+async function enforceRateLimit(
+    c: Context<{ Bindings: CloudflareBindings }>,
+    rule: RateRule,
+    id: string
+): Promise<void> {
+    const lockedUntil = await RateLimit.hit(getKV(c), c.env.COORDINATOR, rule, id);
+    if (lockedUntil) {
+        throw ApiError.rateLimited(lockedUntil);
+    }
+}
+
+/** 认证前检查客户端 IP（及激活码）是否处于锁定状态 */
+async function checkAuthLockout(c: Context<{ Bindings: CloudflareBindings }>, codeHash?: string): Promise<void> {
+    const ns = c.env.COORDINATOR;
+    const lockedUntil = Math.max(...await Promise.all([
+        RateLimit.check(ns, "authIp", getClientIP(c.req.raw)),
+        codeHash ? RateLimit.check(ns, "authCode", codeHash) : 0
+    ]));
+
+    if (lockedUntil) {
+        throw ApiError.rateLimited(lockedUntil);
+    }
+}
+
+/**
+ * 记录一次认证失败
+ * 仅激活码认证按激活码计数：重新认证等失败多为已有设备的正常过期，不应波及同一激活码的其他设备
+ */
+async function recordAuthFailure(c: Context<{ Bindings: CloudflareBindings }>, codeHash?: string): Promise<void> {
+    const kv = getKV(c);
+    const ns = c.env.COORDINATOR;
+    await Promise.all([
+        RateLimit.hit(kv, ns, "authIp", getClientIP(c.req.raw)),
+        codeHash ? RateLimit.hit(kv, ns, "authCode", codeHash) : 0
+    ]);
+}
+
+/** 记录客户端审计事件，操作者为会话 client_uuid */
+async function auditClient(
+    c: Context<{ Bindings: CloudflareBindings }>,
+    body: EncryptedRequest,
+    event: Omit<AuditInput, "actor" | "ip">
+): Promise<void> {
+    await Audit.record(getStore(c), { ...event, actor: `client:${body.client_uuid}`, ip: getClientIP(c.req.raw) });
 }
 
 /** 验证必填字段 - 修复类型问题 */
@@ -172,18 +435,13 @@ function validateRequiredFields(body: object, requiredFields: string[]): void {
 //                          中间件
 // ═══════════════════════════════════════════════════════════
 
-/** 全局错误处理 + RSA 密钥初始化 */
-api.use("*", async (c, next) => {
-    try {
-        await ensureRSAKeys(getKV(c));
-        await next();
-    } catch (e) {
-        if (e instanceof ApiError) {
-            return fail(c, e, e.statusCode);
-        }
-        console.error("Unhandled error:", e);
-        return fail(c, ApiError.serverError(), 500);
+/** 全局错误处理（Hono 会在中间件之前捕获路由抛出的异常，需通过 onError 处理） */
+api.onError((e, c) => {
+    if (e instanceof ApiError) {
+        return fail(c, e, e.statusCode);
     }
+    console.error("Unhandled error:", e);
+    return fail(c, ApiError.serverError(), 500);
 });
 
 // ═══════════════════════════════════════════════════════════
@@ -191,12 +449,23 @@ api.use("*", async (c, next) => {
 // ═══════════════════════════════════════════════════════════
 
 /**
- * [POST] /pub/key/exc - RSA 公钥交换接口
+ * [POST] /pub/key/exc - 密钥交换接口
+ * v1（client_pub_key_pem）：返回服务器 RSA 公钥与密钥 ID key_id，后续请求可通过 key_id 指明加密所用的服务器密钥
+ * v2（client_ecdh_pub_key）：返回服务器 ECDH 公钥，双方以 HKDF(共享密钥, client_uuid) 派生会话 AES-GCM 密钥
  */
 api.post("/pub/key/exc", async (c) => {
     const kv = getKV(c);
+
+    // 限制单个 IP 创建会话的频率
+    await enforceRateLimit(c, "exchange", getClientIP(c.req.raw));
+
     const body = await c.req.json<KeyExchangeRequest>();
 
+    const clientEcdhPubKey = body.client_ecdh_pub_key?.trim();
+    if (clientEcdhPubKey) {
+        return ok(c, await exchangeKeyV2(kv, clientEcdhPubKey));
+    }
+
     const clientPubKeyPem = body.client_pub_key_pem?.trim();
     if (!clientPubKeyPem) {
         throw ApiError.missingField("client_pub_key_pem");
@@ -209,21 +478,34 @@ api.post("/pub/key/exc", async (c) => {
         throw ApiError.invalidFormat("client public key");
     }
 
-    // 获取服务器公钥
-    const serverPubKeyPem = await kv.get("rsa_pub_key_pem");
-    if (!serverPubKeyPem) {
-        throw ApiError.serverError("Server public key not available");
-    }
+    // 获取当前代次的服务器密钥
+    const serverKey = await ensureRSAKeys(kv, c.env.COORDINATOR);
 
-    // 生成会话
+    // 生成会话，记录所用服务器密钥 ID
     const clientUuid = generateUUID();
     await kv.put(`S:${clientUuid}`, clientPubKeyPem, {
-        expirationTtl: CONFIG.CLIENT_KEY_TTL
+        expirationTtl: CONFIG.CLIENT_KEY_TTL,
+        metadata: { kid: serverKey.kid }
     });
 
     return ok(c, {
         client_uuid: clientUuid,
-        server_pub_key_pem: serverPubKeyPem
+        key_id: serverKey.kid,
+        server_pub_key_pem: serverKey.pubPem
+    });
+});
+
+/**
+ * [GET] /pub/license/key - 离线授权令牌验证公钥
+ */
+api.get("/pub/license/key", async (c) => {
+    const [kid, jwk] = await License.publicKey(getKV(c), c.env.COORDINATOR);
+
+    return ok(c, {
+        alg: "ES256",
+        kid,
+        public_key_jwk: jwk,
+        offline_grace_seconds: CONFIG.OFFLINE_GRACE_SECONDS
     });
 });
 
@@ -231,40 +513,49 @@ api.post("/pub/key/exc", async (c) => {
  * [POST] /auth/reg/code - 核心验证接口
  */
 api.post("/auth/reg/code", async (c) => {
-    const kv = getKV(c);
-    const body = await c.req.json<AuthRegCodeRequest>();
-
-    // 验证必填字段
-    validateRequiredFields(body, ["client_uuid", "data_c", "data_i", "data_b"]);
+    const body = await c.req.json<EncryptedRequest>();
 
-    // 获取会话上下文
-    const { serverPriPem, clientPubPem } = await getSessionContext(kv, body.client_uuid);
+    // 解密会话请求
+    const session = await openSession<AuthRegCodeFields>(c, body, ["data_c", "data_i", "data_b"]);
+    const { data_c: dataC, data_i: productId, data_b: binding } = session.fields;
 
     let success = false;
     let uuid = "";
     let remaining = 0;
+    let features: string[] = [];
+    let license = "";
 
     try {
-        // 并行解密所有数据
-        const [dataC, productId, binding] = await Promise.all([
-            decrypt(body.data_c, serverPriPem),
-            decrypt(body.data_i, serverPriPem),
-            decrypt(body.data_b, serverPriPem)
-        ]);
-
         // 解析并验证时间戳
         const { value: code, timestamp } = parseTimestampedData(dataC);
         validateTimestamp(timestamp);
 
+        const store = getStore(c);
+        const keyring = Keyring.fromEnv(c.env);
+        const codeHash = await Code.canonicalHash(store, keyring, code);
+        await checkAuthLockout(c, codeHash);
+
         // 执行认证 - 直接解构，移除冗余变量
-        [success, uuid, remaining] = await Code.auth(
-            kv,
-            c.env.SERVER_KEY,
+        [success, uuid, remaining, features, license] = await Code.auth(
+            store,
+            keyring,
             code,
             productId,
             binding
         );
 
+        if (!success) {
+            await recordAuthFailure(c, codeHash);
+        }
+
+        await auditClient(c, body, {
+            action: "code.activate",
+            success,
+            productId,
+            codeHash,
+            activationUuid: uuid || undefined
+        });
+
     } catch (e) {
         if (e instanceof ApiError) {
             throw e;
@@ -273,43 +564,287 @@ api.post("/auth/reg/code", async (c) => {
     }
 
     // 加密响应
-    const resultStr = buildAuthResult(success, uuid, remaining);
-    const encryptedData = await encrypt(resultStr, clientPubPem);
+    const resultStr = buildAuthResult(success, uuid, remaining, features);
 
-    return ok(c, { data: encryptedData });
+    // 离线授权令牌已签名且不含机密，v1 中长度超出 RSA 单块上限，直接明文返回
+    return ok(c, await session.seal(resultStr, { license }));
 });
 
 /**
  * [POST] /auth/again/reg/code - 重新认证接口
  */
 api.post("/auth/again/reg/code", async (c) => {
-    const kv = getKV(c);
-    const body = await c.req.json<AuthAgainRequest>();
-
-    // 验证必填字段
-    validateRequiredFields(body, ["client_uuid", "data_c", "data_u"]);
+    const body = await c.req.json<EncryptedRequest>();
 
-    // 获取会话上下文
-    const { serverPriPem, clientPubPem } = await getSessionContext(kv, body.client_uuid);
+    // 解密会话请求
+    const session = await openSession<AuthAgainFields>(c, body, ["data_c", "data_u"], ["data_b"]);
+    const { data_c: code, data_u: activationUuid, data_b: binding = "" } = session.fields;
 
-    // 并行解密 - 修复 await 问题
-    const code = await decrypt(body.data_c, serverPriPem);
-    const activationUuid = await decrypt(body.data_u, serverPriPem);
-    const binding = body.data_b ? await decrypt(body.data_b, serverPriPem) : "";
+    await checkAuthLockout(c);
 
     // 执行重新认证
-    const [success, expirationOrUuid, remaining] = await Code.authAgain(
-        kv,
+    const store = getStore(c);
+    const keyring = Keyring.fromEnv(c.env);
+    const [success, expirationOrUuid, remaining, features, license] = await Code.authAgain(
+        store,
+        keyring,
+        code,
+        activationUuid,
+        binding
+    );
+
+    if (!success) {
+        await recordAuthFailure(c);
+    }
+
+    await auditClient(c, body, {
+        action: "code.reauth",
+        success,
+        productId: (await store.getActivation(activationUuid))?.productId,
+        codeHash: await Code.canonicalHash(store, keyring, code),
+        activationUuid
+    });
+
+    // 加密响应
+    const resultStr = buildAuthResult(success, expirationOrUuid, remaining, features);
+
+    return ok(c, await session.seal(resultStr, { license }));
+});
+
+/**
+ * [POST] /auth/deactivate/code - 解除激活接口（迁移到新设备）
+ */
+api.post("/auth/deactivate/code", async (c) => {
+    const body = await c.req.json<EncryptedRequest>();
+
+    // 解密会话请求
+    const session = await openSession<DeactivateFields>(c, body, ["data_c", "data_u", "data_b"]);
+    const { data_c: dataC, data_u: activationUuid, data_b: binding } = session.fields;
+
+    // 解析并验证时间戳
+    const { value: code, timestamp } = parseTimestampedData(dataC);
+    validateTimestamp(timestamp);
+
+    await checkAuthLockout(c);
+
+    // 解除激活会删除激活记录，需先取得产品 ID 供审计使用
+    const store = getStore(c);
+    const keyring = Keyring.fromEnv(c.env);
+    const activation = await store.getActivation(activationUuid);
+
+    // 执行解除激活
+    const [success, remaining, transfersLeft] = await Code.deactivate(
+        store,
+        keyring,
+        code,
+        activationUuid,
+        binding
+    );
+
+    if (!success) {
+        await recordAuthFailure(c);
+    }
+
+    await auditClient(c, body, {
+        action: "code.deactivate",
+        success,
+        productId: activation?.productId,
+        codeHash: await Code.canonicalHash(store, keyring, code),
+        activationUuid
+    });
+
+    // 加密响应
+    const resultStr = buildDeactivateResult(success, remaining, transfersLeft);
+
+    return ok(c, await session.seal(resultStr));
+});
+
+/**
+ * [POST] /auth/trial - 开始试用（无需激活码，每个设备绑定每个产品只能试用一次）
+ * 返回试用码与激活 UUID，之后以试用码作为 data_c 调用 /auth/again/reg/code 重新认证
+ */
+api.post("/auth/trial", async (c) => {
+    const body = await c.req.json<EncryptedRequest>();
+
+    // 解密会话请求
+    const session = await openSession<TrialFields>(c, body, ["data_i", "data_b"]);
+    const { data_i: productId, data_b: binding } = session.fields;
+
+    // 限制单个 IP 更换绑定反复申请试用
+    await enforceRateLimit(c, "trial", getClientIP(c.req.raw));
+
+    const [success, code, uuid, expirationTime, features, license] = await Code.trial(
+        getStore(c),
+        productId,
+        binding
+    );
+
+    await auditClient(c, body, {
+        action: "code.trial",
+        success,
+        productId,
+        codeHash: code ? await Code.codeHash(code) : undefined,
+        activationUuid: uuid || undefined
+    });
+
+    // 加密响应
+    const resultStr = buildTrialResult(success, code, uuid, expirationTime, features);
+
+    return ok(c, await session.seal(resultStr, { license }));
+});
+
+/**
+ * [POST] /auth/renew/code - 使用续期码延长已有激活记录（保留激活 UUID）
+ * data_r 为续期码（附时间戳），data_c 为激活时使用的激活码；返回格式同重新认证接口
+ */
+api.post("/auth/renew/code", async (c) => {
+    const body = await c.req.json<EncryptedRequest>();
+
+    // 解密会话请求
+    const session = await openSession<RenewFields>(c, body, ["data_r", "data_c", "data_u", "data_b"]);
+    const { data_r: dataR, data_c: code, data_u: activationUuid, data_b: binding } = session.fields;
+
+    // 解析并验证时间戳
+    const { value: renewalCode, timestamp } = parseTimestampedData(dataR);
+    validateTimestamp(timestamp);
+
+    const store = getStore(c);
+    const keyring = Keyring.fromEnv(c.env);
+    const renewalHash = await Code.canonicalHash(store, keyring, renewalCode);
+    await checkAuthLockout(c, renewalHash);
+
+    const [success, expiration, remaining, features, license] = await Code.renew(
+        store,
+        keyring,
+        renewalCode,
         code,
         activationUuid,
         binding
     );
 
+    if (!success) {
+        await recordAuthFailure(c, renewalHash);
+    }
+
+    await auditClient(c, body, {
+        action: "code.renew",
+        success,
+        productId: (await store.getActivation(activationUuid))?.productId,
+        codeHash: await Code.canonicalHash(store, keyring, code),
+        activationUuid,
+        detail: `renewal:${renewalHash}`
+    });
+
+    // 加密响应
+    const resultStr = buildAuthResult(success, expiration, remaining, features);
+
+    return ok(c, await session.seal(resultStr, { license }));
+});
+
+/**
+ * [POST] /auth/lease/checkout - 签出浮动授权席位
+ * 返回租约 ID 与租约时长（秒），客户端须在到期前调用心跳接口续期
+ */
+api.post("/auth/lease/checkout", async (c) => {
+    const body = await c.req.json<EncryptedRequest>();
+
+    // 解密会话请求
+    const session = await openSession<LeaseCheckoutFields>(c, body, ["data_c", "data_i", "data_b"]);
+    const { data_c: dataC, data_i: productId, data_b: binding } = session.fields;
+
+    // 解析并验证时间戳
+    const { value: code, timestamp } = parseTimestampedData(dataC);
+    validateTimestamp(timestamp);
+
+    const store = getStore(c);
+    const keyring = Keyring.fromEnv(c.env);
+    const codeHash = await Code.canonicalHash(store, keyring, code);
+    await checkAuthLockout(c, codeHash);
+
+    const [success, leaseId, ttl, features] = await Code.checkout(
+        store,
+        keyring,
+        code,
+        productId,
+        binding
+    );
+
+    if (!success) {
+        await recordAuthFailure(c, codeHash);
+    }
+
+    await auditClient(c, body, {
+        action: "lease.checkout",
+        success,
+        productId,
+        codeHash,
+        detail: leaseId || undefined
+    });
+
     // 加密响应
-    const resultStr = buildAuthResult(success, expirationOrUuid, remaining);
-    const encryptedData = await encrypt(resultStr, clientPubPem);
+    const resultStr = buildLeaseResult(success, leaseId, ttl, features);
+
+    return ok(c, await session.seal(resultStr));
+});
 
-    return ok(c, { data: encryptedData });
+/**
+ * [POST] /auth/lease/heartbeat - 浮动授权席位心跳（续期租约）
+ */
+api.post("/auth/lease/heartbeat", async (c) => {
+    const body = await c.req.json<EncryptedRequest>();
+
+    // 解密会话请求
+    const session = await openSession<LeaseFields>(c, body, ["data_c", "data_l", "data_b"]);
+    const { data_c: code, data_l: leaseId, data_b: binding } = session.fields;
+
+    await checkAuthLockout(c);
+
+    const [success, renewedLeaseId, ttl, features] = await Code.heartbeat(
+        getStore(c),
+        Keyring.fromEnv(c.env),
+        code,
+        leaseId,
+        binding
+    );
+
+    // 租约过期后客户端需重新签出，不记录审计，仅计入限流
+    if (!success) {
+        await recordAuthFailure(c);
+    }
+
+    // 加密响应
+    const resultStr = buildLeaseResult(success, renewedLeaseId, ttl, features);
+
+    return ok(c, await session.seal(resultStr));
+});
+
+/**
+ * [POST] /auth/lease/release - 归还浮动授权席位（客户端退出时调用）
+ */
+api.post("/auth/lease/release", async (c) => {
+    const body = await c.req.json<EncryptedRequest>();
+
+    // 解密会话请求
+    const session = await openSession<LeaseFields>(c, body, ["data_c", "data_l", "data_b"]);
+    const { data_c: dataC, data_l: leaseId, data_b: binding } = session.fields;
+
+    // 解析并验证时间戳
+    const { value: code, timestamp } = parseTimestampedData(dataC);
+    validateTimestamp(timestamp);
+
+    const store = getStore(c);
+    const keyring = Keyring.fromEnv(c.env);
+    const success = await Code.releaseSeat(store, keyring, code, leaseId, binding);
+
+    await auditClient(c, body, {
+        action: "lease.release",
+        success,
+        codeHash: await Code.canonicalHash(store, keyring, code),
+        detail: leaseId
+    });
+
+    // 加密响应
+    return ok(c, await session.seal(`${success}`));
 });
 
 export default api;
\ No newline at end of file
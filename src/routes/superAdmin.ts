@@ -1,368 +1,2423 @@
 ﻿// routes/superAdmin.ts
 import {Context, Hono} from "hono";
-import { Product, Code } from "../tool/code";
-import {getClientIP} from "../tool/tool";
+import {deleteCookie, getCookie, setCookie} from "hono/cookie";
+import { Product, Code, PRODUCT_STATUSES, CODE_FORMATS } from "../tool/code";
+import {
+    createStore, IStore, ILicenseTemplate, ITrialPolicy, ProductStatus, AuditAction, CodeFormat, CodeMode, AdminScope
+} from "../store/store";
+import { Revocation } from "../tool/revocation";
+import { Keyring } from "../tool/keyring";
+import { RateLimit, RateRule, RATE_RULES } from "../tool/rateLimit";
+import { Audit, AuditInput } from "../tool/audit";
+import { Stats } from "../tool/stats";
+import { Batch, BATCH_EXPORT_TYPES, BatchExportType } from "../tool/batch";
+import { CodeMeta } from "../tool/codeMeta";
+import { AdminKey, AdminPrincipal, ADMIN_ROLES, ADMIN_SCOPES } from "../tool/adminKey";
+import { AdminSession } from "../tool/adminSession";
+import { Totp } from "../tool/totp";
+import { Hash } from "../tool/hash";
+import { IpList } from "../tool/ipList";
+import { CONFIG } from "../config";
+import {getClientIP, serverT} from "../tool/tool";
 import suHtml from '../html/superAdminPage.html';
 
-const superAdmin = new Hono<{ Bindings: CloudflareBindings }>();
+type SuperAdminEnv = { Bindings: CloudflareBindings; Variables: { admin: AdminPrincipal } };
 
+/** 会话 Cookie 只发送给管理后台路径（与 index.ts 中的挂载路径一致） */
+const SESSION_COOKIE_PATH = "/admin/su";
 
+const superAdmin = new Hono<SuperAdminEnv>();
+
+
+/**
+ * 管理员认证并检查权限范围，每次尝试（无论成败）都写入审计日志
+ * 认证通过的管理员保存在 c.var.admin，供产品权限检查与审计署名使用；权限不足同样返回 false
+ */
 async function authSuperAdmin(
-    c: Context<{ Bindings: CloudflareBindings }>
+    c: Context<SuperAdminEnv>,
+    scope: AdminScope
 ): Promise<boolean> {
+    const admin = await checkSuperAdmin(c);
+    const authed = admin !== null && AdminKey.hasScope(admin, scope);
+
+    await Audit.record(createStore(c.env), {
+        action: "admin.auth",
+        success: authed,
+        actor: admin?.name ?? "anonymous",
+        ip: getClientIP(c.req.raw),
+        detail: `${c.req.method} ${c.req.path}${admin && !authed ? ` (missing scope ${scope})` : ""}`
+    });
+
+    if (authed) c.set("admin", admin);
+    return authed;
+}
+
+async function checkSuperAdmin(
+    c: Context<SuperAdminEnv>
+): Promise<AdminPrincipal | null> {
+    // 1. IP 白名单校验
+    if (!checkAdminIP(c)) {
+        return null;
+    }
+
+    const store = createStore(c.env);
+    const { SUPER_ADMIN_KEY } = c.env;
+
+    // 2. 校验 Admin Key（SUPER_ADMIN_KEY 或单独签发的管理员 Key，供脚本调用）
+    const xAuth = c.req.header("X-Authorization-A") || "";
+    if (xAuth) {
+        const admin = await AdminKey.authenticate(store, xAuth, SUPER_ADMIN_KEY);
+        if (!admin) {
+            console.log("Admin auth failed: invalid key");
+            return null;
+        }
+
+        // 已登记 TOTP 的管理员只能通过登录会话访问
+        if (await AdminSession.isTotpEnrolled(store, admin.id)) {
+            console.log("Admin auth failed: key requires TOTP login");
+            return null;
+        }
+        return admin;
+    }
+
+    // 3. 控制台登录会话（HttpOnly Cookie），非 GET 请求须携带匹配的 CSRF Token
+    const sessionId = getCookie(c, AdminSession.COOKIE_NAME);
+    if (!sessionId) {
+        return null;
+    }
+
+    const session = await AdminSession.get(c.env.AUTH_KV, sessionId);
+    if (!session) {
+        console.log("Admin auth failed: session expired");
+        return null;
+    }
+
+    if (c.req.method !== "GET" && !AdminSession.checkCsrf(session, c.req.header(AdminSession.CSRF_HEADER))) {
+        console.log("Admin auth failed: invalid CSRF token");
+        return null;
+    }
+
+    return AdminKey.authenticateHash(store, session.keyHash, SUPER_ADMIN_KEY);
+}
+
+/**
+ * IP 白名单校验（支持 , 和 ;，条目可为单个地址或 CIDR 网段，IPv4/IPv6 均可），对所有管理员与登录请求生效
+ */
+function checkAdminIP(c: Context<SuperAdminEnv>): boolean {
+    const { SUPER_ADMIN_KEY, SUPER_ADMIN_IP } = c.env;
+
+    if (!SUPER_ADMIN_KEY || !SUPER_ADMIN_IP) {
+        console.error("Super admin config missing");
+        return false;
+    }
+
+    const allowedRanges = IpList.fromConfig(SUPER_ADMIN_IP);
+
+    // 防御性校验：配置异常直接拒绝
+    if (allowedRanges.length === 0) {
+        console.error("SUPER_ADMIN_IP has no valid entries");
+        return false;
+    }
+
+    return IpList.matches(allowedRanges, getClientIP(c.req.raw));
+}
+
+/**
+ * 登录（及 TOTP 登记）失败：计入 adminLogin 限流并写入审计日志
+ */
+async function loginFailed(
+    c: Context<SuperAdminEnv>,
+    store: IStore,
+    actor: string,
+    detail: string
+): Promise<void> {
+    const ip = getClientIP(c.req.raw);
+    await Promise.all([
+        RateLimit.hit(c.env.AUTH_KV, c.env.COORDINATOR, "adminLogin", ip),
+        Audit.record(store, { action: "admin.login", success: false, actor, ip, detail })
+    ]);
+}
+
+/**
+ * 登录失败次数过多时返回锁定提示，否则返回 null
+ */
+async function loginLockout(c: Context<SuperAdminEnv>): Promise<string | null> {
+    const lockedUntil = await RateLimit.check(c.env.COORDINATOR, "adminLogin", getClientIP(c.req.raw));
+    if (!lockedUntil) return null;
+
+    const retryAfter = Math.max(Math.ceil((lockedUntil - Date.now()) / 1000), 1);
+    return `Too many failed logins. Retry after ${retryAfter}s`;
+}
+
+/**
+ * 当前管理员是否可以操作指定产品
+ */
+function canAccessProduct(c: Context<SuperAdminEnv>, productId: string): boolean {
+    return AdminKey.canAccessProduct(c.get("admin"), productId);
+}
+
+/**
+ * 当前管理员是否不限产品（无法归属到单个产品的操作只允许此类管理员执行）
+ */
+function isUnrestricted(c: Context<SuperAdminEnv>): boolean {
+    return AdminKey.isUnrestricted(c.get("admin"));
+}
+
+/**
+ * 记录管理员操作的审计事件（actor 为当前管理员名称）
+ */
+async function auditAdmin(
+    c: Context<SuperAdminEnv>,
+    store: IStore,
+    ...events: Omit<AuditInput, "actor" | "ip">[]
+): Promise<void> {
+    const ip = getClientIP(c.req.raw);
+    const actor = c.get("admin").name;
+    await Audit.record(store, ...events.map(e => ({ ...e, actor, ip })));
+}
+
+/**
+ * 记录激活码生成事件（每个激活码一条）
+ */
+async function auditGenerated(
+    c: Context<SuperAdminEnv>,
+    store: IStore,
+    productId: string,
+    codes: string[],
+    terms: CodeTerms
+): Promise<void> {
+    const detail = JSON.stringify(terms);
+    const codeHashes = await Promise.all(codes.map(code => Code.codeHash(code)));
+    await auditAdmin(c, store, ...codeHashes.map(codeHash => ({
+        action: "code.generate" as AuditAction,
+        success: true,
+        productId,
+        codeHash,
+        detail
+    })));
+}
+
+/**
+ * 从请求体中解析激活码哈希（支持直接传入 code 或 codeHash，code 按规范形式计算）
+ */
+async function resolveCodeHash(
+    env: CloudflareBindings,
+    body: { code?: unknown; codeHash?: unknown }
+): Promise<string | null> {
+    if (typeof body.code === "string" && body.code.trim()) {
+        return Code.canonicalHash(createStore(env), Keyring.fromEnv(env), body.code.trim());
+    }
+    if (typeof body.codeHash === "string" && /^[0-9a-f]{40}$/.test(body.codeHash)) {
+        return body.codeHash;
+    }
+    return null;
+}
+
+
+type CodeTerms = Required<Omit<ILicenseTemplate, "name">>;
+
+const TEMPLATE_NAME_PATTERN = /^[\w-]{1,32}$/;
+const FEATURE_NAME_PATTERN = /^[\w-]{1,32}$/;
+
+/**
+ * 校验功能列表格式
+ */
+function isFeatureList(features: unknown): features is string[] {
+    return Array.isArray(features) &&
+        features.every(f => typeof f === "string" && FEATURE_NAME_PATTERN.test(f));
+}
+
+/**
+ * 解析激活码条款
+ * 指定 template 时以该产品的授权模板为默认值，请求体中显式给出的数值优先
+ * 返回 [条款, 错误信息]
+ */
+async function resolveCodeTerms(
+    store: IStore,
+    productId: string,
+    body: Record<string, unknown>
+): Promise<[CodeTerms | null, string]> {
+    let defaults: Partial<CodeTerms> = {};
+
+    if (body.template !== undefined) {
+        if (typeof body.template !== "string" || !body.template) {
+            return [null, "Invalid template"];
+        }
+
+        const template = await Product.getTemplate(store, productId, body.template);
+        if (!template) {
+            return [null, "Template not found"];
+        }
+        defaults = template;
+    }
+
+    const expirationPeriod = body.expirationPeriod ?? defaults.expirationPeriod;
+    const activationDuration = body.activationDuration ?? defaults.activationDuration;
+    const amount = body.amount ?? defaults.amount;
+    const features = body.features ?? defaults.features ?? [];
+    const floating = body.floating ?? defaults.floating ?? false;
+    const renewal = body.renewal ?? defaults.renewal ?? false;
+
+    if (typeof expirationPeriod !== "number" || expirationPeriod <= 0) {
+        return [null, "Invalid expirationPeriod"];
+    }
+
+    if (typeof activationDuration !== "number" || activationDuration <= 0) {
+        return [null, "Invalid activationDuration"];
+    }
+
+    if (typeof amount !== "number" || amount <= 0 || !Number.isInteger(amount)) {
+        return [null, "Invalid amount"];
+    }
+
+    if (!isFeatureList(features)) {
+        return [null, "Invalid features"];
+    }
+
+    if (typeof floating !== "boolean") {
+        return [null, "Invalid floating"];
+    }
+
+    if (typeof renewal !== "boolean" || (renewal && (floating || features.length > 0))) {
+        return [null, "Invalid renewal (cannot be floating or carry features)"];
+    }
+
+    return [{ expirationPeriod, activationDuration, amount, features, floating, renewal }, ""];
+}
+
+/**
+ * 校验激活码格式
+ */
+function isCodeFormat(format: unknown): format is CodeFormat {
+    return CODE_FORMATS.includes(format as CodeFormat);
+}
+
+/**
+ * 由条款确定激活码类型
+ */
+function codeMode(terms: CodeTerms): CodeMode {
+    return terms.floating ? "floating" : terms.renewal ? "renewal" : "standard";
+}
+
+/**
+ * 登记 TOTP 两步验证，返回共享密钥与 otpauth URI（供身份验证器扫码或手动导入）
+ * POST /super/totp/enroll
+ * Body: { "key": "API Key" }
+ * 登记在首次登录成功后确认；已确认的登记须由其他管理员通过 /super/admin/:id/totp/reset 重置
+ */
+superAdmin.post("/totp/enroll", async (c) => {
+    try {
+        if (!checkAdminIP(c)) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const lockout = await loginLockout(c);
+        if (lockout) {
+            return c.json({ success: false, message: lockout }, 429);
+        }
+
+        const store = createStore(c.env);
+
+        const { key } = await c.req.json();
+
+        if (!key || typeof key !== "string") {
+            return c.json({ success: false, message: "Invalid key" }, 400);
+        }
+
+        const admin = await AdminKey.authenticate(store, key, c.env.SUPER_ADMIN_KEY);
+
+        if (!admin) {
+            await loginFailed(c, store, "anonymous", "TOTP enrolment: invalid key");
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const totp = await AdminSession.enroll(store, admin.id);
+
+        if (!totp) {
+            return c.json({ success: false, message: "TOTP already enrolled, ask an admin to reset it" }, 400);
+        }
+
+        c.set("admin", admin);
+        await auditAdmin(c, store, { action: "admin.totp.enroll", success: true });
+
+        return c.json({
+            success: true,
+            message: "Add the secret to your authenticator app, then log in with a code to confirm",
+            data: {
+                secret: totp.secret,
+                uri: Totp.uri(totp.secret, admin.name)
+            }
+        });
+    } catch (error) {
+        console.error("Enroll TOTP error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 登录管理后台：校验 API Key 与 TOTP 验证码，签发 HttpOnly 会话 Cookie
+ * POST /super/login
+ * Body: { "key": "API Key", "totp": "123456" }
+ * 返回的 csrfToken 须在之后的非 GET 请求中通过 X-CSRF-Token 头发送；会话 CONFIG.ADMIN_SESSION_TTL 秒后过期
+ */
+superAdmin.post("/login", async (c) => {
+    try {
+        if (!checkAdminIP(c)) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const lockout = await loginLockout(c);
+        if (lockout) {
+            return c.json({ success: false, message: lockout }, 429);
+        }
+
+        const store = createStore(c.env);
+
+        const { key, totp: code } = await c.req.json();
+
+        if (!key || typeof key !== "string" || typeof code !== "string") {
+            return c.json({ success: false, message: "Invalid key or totp" }, 400);
+        }
+
+        const admin = await AdminKey.authenticate(store, key, c.env.SUPER_ADMIN_KEY);
+
+        if (!admin) {
+            await loginFailed(c, store, "anonymous", "invalid key");
+            return c.json({ success: false, message: "Invalid key or TOTP code" }, 401);
+        }
+
+        const totp = await store.getAdminTotp(admin.id);
+
+        if (!totp) {
+            return c.json({ success: false, message: "TOTP not enrolled" }, 400);
+        }
+
+        if (!await AdminSession.verifyTotp(store, totp, code.trim())) {
+            await loginFailed(c, store, admin.name, "invalid TOTP code");
+            return c.json({ success: false, message: "Invalid key or TOTP code" }, 401);
+        }
+
+        const [sessionId, session] = await AdminSession.create(c.env.AUTH_KV, await Hash.sha256(key));
+        setCookie(c, AdminSession.COOKIE_NAME, sessionId, {
+            path: SESSION_COOKIE_PATH,
+            httpOnly: true,
+            secure: true,
+            sameSite: "Strict",
+            maxAge: CONFIG.ADMIN_SESSION_TTL
+        });
+
+        c.set("admin", admin);
+        await auditAdmin(c, store, {
+            action: "admin.login",
+            success: true,
+            detail: totp.confirmed ? undefined : "TOTP enrolment confirmed"
+        });
+
+        return c.json({
+            success: true,
+            message: "Logged in successfully",
+            data: {
+                admin,
+                csrfToken: session.csrfToken,
+                expiresTime: session.expiresTime
+            }
+        });
+    } catch (error) {
+        console.error("Admin login error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 查看当前登录会话（控制台刷新页面后据此恢复 CSRF Token）
+ * GET /super/session
+ */
+superAdmin.get("/session", async (c) => {
+    try {
+        if (!checkAdminIP(c)) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const sessionId = getCookie(c, AdminSession.COOKIE_NAME);
+        const session = sessionId ? await AdminSession.get(c.env.AUTH_KV, sessionId) : null;
+        const admin = session
+            ? await AdminKey.authenticateHash(createStore(c.env), session.keyHash, c.env.SUPER_ADMIN_KEY)
+            : null;
+
+        if (!session || !admin) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        return c.json({
+            success: true,
+            data: {
+                admin,
+                csrfToken: session.csrfToken,
+                expiresTime: session.expiresTime
+            }
+        });
+    } catch (error) {
+        console.error("Get session error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 退出登录（删除会话与 Cookie）
+ * POST /super/logout
+ */
+superAdmin.post("/logout", async (c) => {
+    try {
+        const sessionId = getCookie(c, AdminSession.COOKIE_NAME);
+        const session = sessionId ? await AdminSession.get(c.env.AUTH_KV, sessionId) : null;
+
+        if (session && sessionId && AdminSession.checkCsrf(session, c.req.header(AdminSession.CSRF_HEADER))) {
+            await AdminSession.destroy(c.env.AUTH_KV, sessionId);
+        }
+
+        deleteCookie(c, AdminSession.COOKIE_NAME, { path: SESSION_COOKIE_PATH, secure: true });
+
+        return c.json({ success: true, message: "Logged out" });
+    } catch (error) {
+        console.error("Admin logout error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 获取所有产品列表
+ * GET /super/products
+ * Query: ?all=1 包含已归档产品
+ */
+superAdmin.get("/products", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const includeArchived = c.req.query("all") === "1";
+        const products = (await Product.gets(store))
+            .filter(p => includeArchived || p.status !== "archived")
+            .filter(p => canAccessProduct(c, p.id));
+        return c.json({
+            success: true,
+            data: products,
+            count: products.length
+        });
+    } catch (error) {
+        console.error("Get products error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 添加新产品
+ * POST /super/product
+ * Body: { "name": "产品名称" }
+ */
+superAdmin.post("/product", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const body = await c.req.json();
+        const { name } = body;
+
+        if (!name || typeof name !== "string") {
+            return c.json({ success: false, message: "Invalid product name" }, 400);
+        }
+
+        const [success, productId] = await Product.set(store, name);
+
+        if (!success) {
+            return c.json({
+                success: false,
+                message: "Product already exists or invalid name"
+            }, 400);
+        }
+
+        return c.json({
+            success: true,
+            message: "Product created successfully",
+            data: { name, id: productId }
+        });
+    } catch (error) {
+        console.error("Create product error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 检查产品名是否存在
+ * GET /super/product/check/:name
+ */
+superAdmin.get("/product/check/:name", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const name = c.req.param("name");
+        const exists = await Product.existsName(store, name);
+
+        return c.json({
+            success: true,
+            exists,
+            name
+        });
+    } catch (error) {
+        console.error("Check product error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 重命名产品
+ * POST /super/product/:id/rename
+ * Body: { "name": "新产品名称" }
+ */
+superAdmin.post("/product/:id/rename", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const body = await c.req.json();
+        const { name } = body;
+
+        if (!name || typeof name !== "string") {
+            return c.json({ success: false, message: "Invalid product name" }, 400);
+        }
+
+        const success = await Product.rename(store, id, name);
+
+        if (!success) {
+            return c.json({
+                success: false,
+                message: "Product not found or name already exists"
+            }, 400);
+        }
+
+        return c.json({
+            success: true,
+            message: "Product renamed successfully",
+            data: { id, name: name.trim() }
+        });
+    } catch (error) {
+        console.error("Rename product error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 设置产品状态（停用、归档即软删除、恢复）
+ * POST /super/product/:id/status
+ * Body: { "status": "active" | "disabled" | "archived" }
+ */
+superAdmin.post("/product/:id/status", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const body = await c.req.json();
+        const { status } = body;
+
+        if (!PRODUCT_STATUSES.includes(status)) {
+            return c.json({ success: false, message: "Invalid status" }, 400);
+        }
+
+        const success = await Product.setStatus(store, id, status as ProductStatus);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Product status updated successfully",
+            data: { id, status }
+        });
+    } catch (error) {
+        console.error("Set product status error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 设置产品的功能目录
+ * POST /super/product/:id/features
+ * Body: { "features": ["basic", "pro", "export"] }
+ */
+superAdmin.post("/product/:id/features", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const body = await c.req.json();
+        const { features } = body;
+
+        if (!isFeatureList(features)) {
+            return c.json({ success: false, message: "Invalid features" }, 400);
+        }
+
+        const success = await Product.setFeatures(store, id, features);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Product features updated successfully",
+            data: { id, features }
+        });
+    } catch (error) {
+        console.error("Set product features error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 获取产品的授权模板
+ * GET /super/product/:id/templates
+ */
+superAdmin.get("/product/:id/templates", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const product = await Product.getById(store, c.req.param("id"));
+
+        if (!product) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        const templates = product.templates ?? [];
+        return c.json({
+            success: true,
+            data: templates,
+            count: templates.length
+        });
+    } catch (error) {
+        console.error("Get templates error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 添加/更新授权模板
+ * POST /super/product/:id/template
+ * Body: {
+ *   "name": "yearly",
+ *   "expirationPeriod": 2592000,
+ *   "activationDuration": 31536000,
+ *   "amount": 1,
+ *   "features": ["pro"],           // 可选，须在产品功能目录中
+ *   "floating": false,             // 可选，浮动授权（amount 为并发席位数）
+ *   "renewal": false               // 可选，续期码（不可与 floating、features 同时使用）
+ * }
+ */
+superAdmin.post("/product/:id/template", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const body = await c.req.json();
+        const {
+            name, expirationPeriod, activationDuration, amount, features = [], floating = false, renewal = false
+        } = body;
+
+        // 参数验证
+        if (typeof name !== "string" || !TEMPLATE_NAME_PATTERN.test(name)) {
+            return c.json({ success: false, message: "Invalid template name" }, 400);
+        }
+
+        if (typeof expirationPeriod !== "number" || expirationPeriod <= 0) {
+            return c.json({ success: false, message: "Invalid expirationPeriod" }, 400);
+        }
+
+        if (typeof activationDuration !== "number" || activationDuration <= 0) {
+            return c.json({ success: false, message: "Invalid activationDuration" }, 400);
+        }
+
+        if (typeof amount !== "number" || amount <= 0 || !Number.isInteger(amount)) {
+            return c.json({ success: false, message: "Invalid amount" }, 400);
+        }
+
+        if (!isFeatureList(features)) {
+            return c.json({ success: false, message: "Invalid features" }, 400);
+        }
+
+        if (typeof floating !== "boolean") {
+            return c.json({ success: false, message: "Invalid floating" }, 400);
+        }
+
+        if (typeof renewal !== "boolean" || (renewal && (floating || features.length > 0))) {
+            return c.json({ success: false, message: "Invalid renewal (cannot be floating or carry features)" }, 400);
+        }
+
+        if (!(await Product.hasFeatures(store, id, features))) {
+            return c.json({ success: false, message: "Product not found or unknown features" }, 400);
+        }
+
+        const template: ILicenseTemplate = {
+            name, expirationPeriod, activationDuration, amount, features, floating, renewal
+        };
+        const success = await Product.setTemplate(store, id, template);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Template saved successfully",
+            data: template
+        });
+    } catch (error) {
+        console.error("Save template error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 删除授权模板
+ * POST /super/product/:id/template/delete
+ * Body: { "name": "yearly" }
+ */
+superAdmin.post("/product/:id/template/delete", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const body = await c.req.json();
+        const { name } = body;
+
+        if (!name || typeof name !== "string") {
+            return c.json({ success: false, message: "Invalid template name" }, 400);
+        }
+
+        const success = await Product.deleteTemplate(store, id, name);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product or template not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Template deleted successfully",
+            data: { id, name }
+        });
+    } catch (error) {
+        console.error("Delete template error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 设置产品试用策略（无需激活码，每个设备绑定只能试用一次）
+ * POST /super/product/:id/trial
+ * Body: {
+ *   "duration": 604800,            // 试用时长（秒）
+ *   "features": ["pro"]            // 可选，须在产品功能目录中
+ * }
+ */
+superAdmin.post("/product/:id/trial", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const body = await c.req.json();
+        const { duration, features = [] } = body;
+
+        if (typeof duration !== "number" || duration <= 0 || !Number.isInteger(duration)) {
+            return c.json({ success: false, message: "Invalid duration" }, 400);
+        }
+
+        if (!isFeatureList(features)) {
+            return c.json({ success: false, message: "Invalid features" }, 400);
+        }
+
+        if (!(await Product.hasFeatures(store, id, features))) {
+            return c.json({ success: false, message: "Product not found or unknown features" }, 400);
+        }
+
+        const trial: ITrialPolicy = { duration, features };
+        const success = await Product.setTrial(store, id, trial);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Trial policy saved successfully",
+            data: { id, trial }
+        });
+    } catch (error) {
+        console.error("Set trial error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 设置产品生成激活码的默认格式（已生成的激活码不受影响）
+ * POST /super/product/:id/code-format
+ * Body: {
+ *   "format": "short"              // long: Base64 长码；short: 分组 Base32 短码，条款保存在服务器
+ * }
+ */
+superAdmin.post("/product/:id/code-format", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const { format } = await c.req.json();
+
+        if (!isCodeFormat(format)) {
+            return c.json({ success: false, message: "Invalid format (must be long or short)" }, 400);
+        }
+
+        const success = await Product.setCodeFormat(store, id, format);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Code format saved successfully",
+            data: { id, codeFormat: format }
+        });
+    } catch (error) {
+        console.error("Set code format error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 关闭产品试用（已开始的试用不受影响）
+ * POST /super/product/:id/trial/delete
+ */
+superAdmin.post("/product/:id/trial/delete", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!canAccessProduct(c, c.req.param("id"))) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const id = c.req.param("id");
+        const success = await Product.setTrial(createStore(c.env), id, null);
+
+        if (!success) {
+            return c.json({ success: false, message: "Product not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: "Trial disabled successfully",
+            data: { id }
+        });
+    } catch (error) {
+        console.error("Delete trial error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 根据产品名生成激活码
+ * POST /super/code/generate
+ * Body: {
+ *   "productName": "产品名称",
+ *   "template": "yearly",           // 授权模板名（可选，提供时以下条款可省略）
+ *   "expirationPeriod": 2592000,    // 激活码有效期（秒），如 30天
+ *   "activationDuration": 31536000, // 激活后的使用时长（秒），如 1年
+ *   "amount": 1,                    // 可使用次数（浮动授权时为并发席位数）
+ *   "features": ["pro", "export"],  // 功能授权（可选，须在产品功能目录中）
+ *   "floating": false,              // 浮动授权（可选），客户端签出席位并定期心跳，而非永久激活
+ *   "renewal": false,               // 续期码（可选），为客户端已有的激活记录延长 activationDuration
+ *   "format": "short",              // 激活码格式 long | short（可选，默认使用产品设置）
+ *   "meta": {                       // 附加信息（可选），字段自定，值为字符串，可通过 /super/code/search 搜索
+ *     "email": "buyer@example.com",
+ *     "order": "SO-1001",
+ *     "note": "客服补发"
+ *   }
+ * }
+ */
+superAdmin.post("/code/generate", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "generate");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const body = await c.req.json();
+        const { productName } = body;
+
+        // 参数验证
+        if (!productName || typeof productName !== "string") {
+            return c.json({ success: false, message: "Invalid productName" }, 400);
+        }
+
+        const [, productId] = await Product.get(store, productName);
+
+        if (!canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const [terms, termsError] = await resolveCodeTerms(store, productId, body);
+
+        if (!terms) {
+            return c.json({ success: false, message: termsError }, 400);
+        }
+
+        if (body.format !== undefined && !isCodeFormat(body.format)) {
+            return c.json({ success: false, message: "Invalid format" }, 400);
+        }
+
+        if (body.meta !== undefined && !CodeMeta.isValid(body.meta)) {
+            return c.json({
+                success: false,
+                message: `Invalid meta (string values, at most ${CONFIG.CODE_META_MAX_BYTES} bytes)`
+            }, 400);
+        }
+
+        const { expirationPeriod, activationDuration, amount, features, floating, renewal } = terms;
+
+        const [success, code] = await Code.gent(
+            store,
+            Keyring.fromEnv(c.env),
+            productName,
+            expirationPeriod,
+            activationDuration,
+            amount,
+            features,
+            codeMode(terms),
+            body.format
+        );
+
+        if (!success) {
+            return c.json({
+                success: false,
+                message: "Product not found, disabled, unknown features or code generation failed"
+            }, 400);
+        }
+
+        await auditGenerated(c, store, productId, [code], terms);
+
+        if (body.meta) {
+            await CodeMeta.attach(store, productId, [code], body.meta);
+        }
+
+        return c.json({
+            success: true,
+            message: "Activation code generated successfully",
+            data: {
+                code,
+                productName,
+                expirationPeriod,
+                activationDuration,
+                amount,
+                features,
+                floating,
+                renewal
+            }
+        });
+    } catch (error) {
+        console.error("Generate code error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 根据产品ID生成激活码
+ * POST /super/code/generate-by-id
+ * Body: {
+ *   "productId": "产品ID",
+ *   "template": "yearly",
+ *   "expirationPeriod": 2592000,
+ *   "activationDuration": 31536000,
+ *   "amount": 1,
+ *   "features": ["pro"],
+ *   "floating": false,
+ *   "renewal": false,
+ *   "format": "short",
+ *   "meta": { "email": "buyer@example.com", "order": "SO-1001" }
+ * }
+ */
+superAdmin.post("/code/generate-by-id", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "generate");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const body = await c.req.json();
+        const { productId } = body;
+
+        // 参数验证
+        if (!productId || typeof productId !== "string") {
+            return c.json({ success: false, message: "Invalid productId" }, 400);
+        }
+
+        if (!canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const [terms, termsError] = await resolveCodeTerms(store, productId, body);
+
+        if (!terms) {
+            return c.json({ success: false, message: termsError }, 400);
+        }
+
+        if (body.format !== undefined && !isCodeFormat(body.format)) {
+            return c.json({ success: false, message: "Invalid format" }, 400);
+        }
+
+        if (body.meta !== undefined && !CodeMeta.isValid(body.meta)) {
+            return c.json({
+                success: false,
+                message: `Invalid meta (string values, at most ${CONFIG.CODE_META_MAX_BYTES} bytes)`
+            }, 400);
+        }
+
+        const { expirationPeriod, activationDuration, amount, features, floating, renewal } = terms;
+
+        const [success, code] = await Code.gentId(
+            store,
+            Keyring.fromEnv(c.env),
+            productId,
+            expirationPeriod,
+            activationDuration,
+            amount,
+            features,
+            codeMode(terms),
+            body.format
+        );
+
+        if (!success) {
+            return c.json({
+                success: false,
+                message: "Product not found, disabled, unknown features or code generation failed"
+            }, 400);
+        }
+
+        await auditGenerated(c, store, productId, [code], terms);
+
+        if (body.meta) {
+            await CodeMeta.attach(store, productId, [code], body.meta);
+        }
+
+        return c.json({
+            success: true,
+            message: "Activation code generated successfully",
+            data: {
+                code,
+                productId,
+                expirationPeriod,
+                activationDuration,
+                amount,
+                features,
+                floating,
+                renewal
+            }
+        });
+    } catch (error) {
+        console.error("Generate code by id error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 批量生成激活码
+ * POST /super/code/batch-generate
+ * Body: {
+ *   "productName": "产品名称",
+ *   "template": "yearly",
+ *   "expirationPeriod": 2592000,
+ *   "activationDuration": 31536000,
+ *   "amount": 1,
+ *   "features": ["pro"],
+ *   "floating": false,
+ *   "renewal": false,
+ *   "format": "short",
+ *   "count": 1000,                 // 生成数量（D1 最多 CONFIG.BATCH_MAX_COUNT，KV 最多 CONFIG.BATCH_MAX_COUNT_KV）
+ *   "label": "经销商 X 三月",       // 批次标签（可选），用于区分渠道或用途
+ *   "meta": { "order": "PO-88" }    // 附加信息（可选），批次内每个激活码相同
+ * }
+ * 生成的激活码保存为批次，可通过 /super/batch/:id/export 重新下载
+ */
+superAdmin.post("/code/batch-generate", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "generate");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const body = await c.req.json();
+        const { productName, count, label = "" } = body;
+
+        // 参数验证
+        if (!productName || typeof productName !== "string") {
+            return c.json({ success: false, message: "Invalid productName" }, 400);
+        }
+
+        const [, productId] = await Product.get(store, productName);
+
+        if (!canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const [terms, termsError] = await resolveCodeTerms(store, productId, body);
+
+        if (!terms) {
+            return c.json({ success: false, message: termsError }, 400);
+        }
+
+        if (body.format !== undefined && !isCodeFormat(body.format)) {
+            return c.json({ success: false, message: "Invalid format" }, 400);
+        }
+
+        if (body.meta !== undefined && !CodeMeta.isValid(body.meta)) {
+            return c.json({
+                success: false,
+                message: `Invalid meta (string values, at most ${CONFIG.CODE_META_MAX_BYTES} bytes)`
+            }, 400);
+        }
+
+        const { expirationPeriod, activationDuration, amount, features, floating, renewal } = terms;
+
+        if (
+            typeof count !== "number" || count <= 0 || count > store.batchMaxCount || !Number.isInteger(count)
+        ) {
+            return c.json({
+                success: false,
+                message: `Invalid count (must be 1-${store.batchMaxCount})`
+            }, 400);
+        }
+
+        if (typeof label !== "string" || label.length > CONFIG.BATCH_LABEL_MAX_LENGTH) {
+            return c.json({
+                success: false,
+                message: `Invalid label (at most ${CONFIG.BATCH_LABEL_MAX_LENGTH} characters)`
+            }, 400);
+        }
+
+        const [success, batch, codes] = await Batch.create(
+            store,
+            Keyring.fromEnv(c.env),
+            productId,
+            label.trim(),
+            count,
+            expirationPeriod,
+            activationDuration,
+            amount,
+            features,
+            codeMode(terms),
+            body.format
+        );
+
+        if (!success || !batch) {
+            return c.json({
+                success: false,
+                message: "Product not found, disabled, unknown features or code generation failed"
+            }, 400);
+        }
+
+        if (body.meta) {
+            await CodeMeta.attach(store, productId, codes, body.meta, batch.id);
+        }
+
+        // 批次只记录一条审计事件，激活码可通过批次导出查到
+        await auditAdmin(c, store, {
+            action: "batch.generate",
+            success: true,
+            productId,
+            detail: JSON.stringify({ batchId: batch.id, label: batch.label, count, format: batch.format, ...terms })
+        });
+
+        return c.json({
+            success: true,
+            message: `Successfully generated ${count} activation codes`,
+            data: {
+                batchId: batch.id,
+                label: batch.label,
+                format: batch.format,
+                codes,
+                productName,
+                count,
+                expirationPeriod,
+                activationDuration,
+                amount,
+                features,
+                floating,
+                renewal
+            }
+        });
+    } catch (error) {
+        console.error("Batch generate codes error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 按附加信息搜索激活码，返回匹配的激活码哈希及其使用次数、吊销状态与激活记录
+ * GET /super/code/search
+ * Query: ?q=buyer@example.com&field=email&productId=&limit=50
+ * q 按子串匹配（ASCII 不区分大小写）；field 可选，只匹配该字段
+ */
+superAdmin.get("/code/search", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const q = (c.req.query("q") || "").trim();
+        const field = c.req.query("field") || undefined;
+        const productId = c.req.query("productId") || undefined;
+        const limit = Number(c.req.query("limit") || CONFIG.CODE_SEARCH_DEFAULT_LIMIT);
+
+        if (!q) {
+            return c.json({ success: false, message: "Invalid q" }, 400);
+        }
+
+        if (field !== undefined && !CodeMeta.isFieldName(field)) {
+            return c.json({ success: false, message: "Invalid field" }, 400);
+        }
+
+        if (!Number.isInteger(limit) || limit <= 0 || limit > CONFIG.CODE_SEARCH_MAX_LIMIT) {
+            return c.json({ success: false, message: `Invalid limit (must be 1-${CONFIG.CODE_SEARCH_MAX_LIMIT})` }, 400);
+        }
+
+        if (productId && !canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const results = (await CodeMeta.search(createStore(c.env), { q, field, productId, limit }))
+            .filter(r => canAccessProduct(c, r.productId));
+
+        return c.json({
+            success: true,
+            data: results
+        });
+    } catch (error) {
+        console.error("Search codes error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 列出激活码批次（按创建时间倒序）
+ * GET /super/batches
+ * Query: ?productId=产品ID（可选）
+ */
+superAdmin.get("/batches", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const productId = c.req.query("productId") || undefined;
+
+        if (productId && !canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const batches = (await Batch.list(createStore(c.env), productId))
+            .filter(b => canAccessProduct(c, b.productId));
+
+        return c.json({
+            success: true,
+            data: batches
+        });
+    } catch (error) {
+        console.error("List batches error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 查看批次详情
+ * GET /super/batch/:id
+ */
+superAdmin.get("/batch/:id", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const batch = await Batch.get(createStore(c.env), c.req.param("id"));
+
+        if (!batch) {
+            return c.json({ success: false, message: "Batch not found" }, 404);
+        }
+
+        if (!canAccessProduct(c, batch.productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        return c.json({
+            success: true,
+            data: batch
+        });
+    } catch (error) {
+        console.error("Get batch error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 导出批次的全部激活码
+ * GET /super/batch/:id/export
+ * Query: ?type=csv（默认）| json
+ */
+superAdmin.get("/batch/:id/export", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "generate");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const id = c.req.param("id");
+        const type = (c.req.query("type") || "csv") as BatchExportType;
+
+        if (!BATCH_EXPORT_TYPES.includes(type)) {
+            return c.json({ success: false, message: "Invalid type (must be csv or json)" }, 400);
+        }
+
+        const store = createStore(c.env);
+        const batch = await Batch.get(store, id);
+
+        if (batch && !canAccessProduct(c, batch.productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const exported = await Batch.export(store, id, type);
+
+        if (!exported) {
+            return c.json({ success: false, message: "Batch not found" }, 404);
+        }
+
+        const [content, contentType] = exported;
+        return c.body(content, 200, {
+            "Content-Type": contentType,
+            "Content-Disposition": `attachment; filename="batch-${id}.${type}"`
+        });
+    } catch (error) {
+        console.error("Export batch error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 吊销批次中的激活码（同时使其所有激活记录失效）
+ * POST /super/batch/:id/revoke
+ * Body: {
+ *   "reason": "渠道违规"        // 吊销原因（可选）
+ * }
+ * 每次最多吊销 CONFIG.BATCH_REVOKE_CHUNK 个，返回的 done 为 false 时重复请求以继续
+ */
+superAdmin.post("/batch/:id/revoke", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const id = c.req.param("id");
+        const { reason = "" } = await c.req.json();
+
+        if (typeof reason !== "string") {
+            return c.json({ success: false, message: "Invalid reason" }, 400);
+        }
+
+        const existing = await Batch.get(store, id);
+
+        if (existing && !canAccessProduct(c, existing.productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const [success, batch, revoked] = await Batch.revoke(store, id, reason);
+
+        if (!success || !batch) {
+            return c.json({ success: false, message: "Batch not found" }, 404);
+        }
+
+        const revokedCount = batch.revokedCount ?? 0;
+
+        if (revoked > 0) {
+            await auditAdmin(c, store, {
+                action: "batch.revoke",
+                success: true,
+                productId: batch.productId,
+                detail: JSON.stringify({ batchId: id, from: revokedCount - revoked, to: revokedCount, reason })
+            });
+        }
+
+        return c.json({
+            success: true,
+            message: `Revoked ${revokedCount} of ${batch.count} activation codes`,
+            data: { ...batch, done: batch.revokedTime !== undefined }
+        });
+    } catch (error) {
+        console.error("Revoke batch error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 查看激活码详情（解码条款、使用次数与激活记录，不消耗使用次数）
+ * POST /super/code/inspect
+ * Body: { "code": "激活码" }
+ */
+superAdmin.post("/code/inspect", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const store = createStore(c.env);
+
+        const body = await c.req.json();
+        const { code } = body;
+
+        if (!code || typeof code !== "string") {
+            return c.json({ success: false, message: "Invalid code" }, 400);
+        }
+
+        const inspection = await Code.inspect(store, Keyring.fromEnv(c.env), code.trim());
+
+        if (!inspection) {
+            return c.json({ success: false, message: "Invalid or corrupted activation code" }, 400);
+        }
+
+        if (!canAccessProduct(c, inspection.productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        return c.json({
+            success: true,
+            data: inspection
+        });
+    } catch (error) {
+        console.error("Inspect code error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 查询激活记录
+ * GET /super/activations
+ * Query: ?productId=&codeHash=&binding=&from=2026-01-01&to=2026-02-01&limit=100
+ * 使用 D1 存储时走索引查询，KV 存储需全量扫描，仅适合少量数据
+ */
+superAdmin.get("/activations", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        const { productId, codeHash, binding, from, to, limit } = c.req.query();
+
+        const fromDate = from ? new Date(from) : null;
+        const toDate = to ? new Date(to) : null;
+        const limitNum = limit ? parseInt(limit, 10) : undefined;
+
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+            return c.json({ success: false, message: "Invalid from/to date" }, 400);
+        }
+
+        if (limitNum !== undefined && (isNaN(limitNum) || limitNum <= 0)) {
+            return c.json({ success: false, message: "Invalid limit" }, 400);
+        }
+
+        if (productId && !canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const activations = (await createStore(c.env).queryActivations({
+            productId: productId || undefined,
+            codeHash: codeHash || undefined,
+            binding: binding || undefined,
+            from: fromDate ? serverT.fromDate(fromDate) : undefined,
+            to: toDate ? serverT.fromDate(toDate) : undefined,
+            limit: limitNum
+        })).filter(a => canAccessProduct(c, a.productId ?? ""));
+
+        return c.json({
+            success: true,
+            data: activations,
+            count: activations.length
+        });
+    } catch (error) {
+        console.error("Query activations error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 延长激活记录有效期（激活 UUID 不变，客户端下次重新认证即获得新的过期时间）
+ * POST /super/activation/extend
+ * Body: {
+ *   "code": "激活码",           // 或 "codeHash": "激活码哈希"
+ *   "uuid": "激活 UUID",        // 可选，省略时延长该激活码下的所有激活记录
+ *   "seconds": 2592000          // 延长的秒数
+ * }
+ */
+superAdmin.post("/activation/extend", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const body = await c.req.json();
+        const { uuid, seconds } = body;
+
+        const codeHash = await resolveCodeHash(c.env, body);
+        if (!codeHash) {
+            return c.json({ success: false, message: "Invalid code or codeHash" }, 400);
+        }
+
+        if (uuid !== undefined && (typeof uuid !== "string" || !uuid)) {
+            return c.json({ success: false, message: "Invalid uuid" }, 400);
+        }
+
+        if (typeof seconds !== "number" || seconds <= 0 || !Number.isInteger(seconds)) {
+            return c.json({ success: false, message: "Invalid seconds" }, 400);
+        }
+
+        const store = createStore(c.env);
+        const extended = await Code.extend(store, codeHash, seconds, uuid);
+
+        await auditAdmin(c, store, ...extended.map(a => ({
+            action: "code.extend" as AuditAction,
+            success: true,
+            productId: a.productId,
+            codeHash,
+            activationUuid: a.uuid,
+            detail: `+${seconds}s`
+        })));
+
+        if (extended.length === 0) {
+            return c.json({ success: false, message: "No unexpired activation found (trial activations cannot be extended)" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            message: `Extended ${extended.length} activation(s)`,
+            data: extended,
+            count: extended.length
+        });
+    } catch (error) {
+        console.error("Extend activation error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 查看激活码加密密钥环及各密钥下未过期的激活码数量（不返回密钥本身）
+ * GET /super/keys
+ * 仅统计登记过密钥 ID 的激活码，无 ID 的旧激活码不计入
+ */
+superAdmin.get("/keys", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const keyring = Keyring.fromEnv(c.env);
+        const counts = await createStore(c.env).countIssuedCodesByKey();
+
+        const keys = keyring.all().map(k => ({
+            id: k.id,
+            current: k.current,
+            liveCodes: counts[k.id] ?? 0
+        }));
+
+        // 已从密钥环移除但仍有未过期激活码的密钥，这些激活码已无法校验
+        const missing = Object.keys(counts)
+            .filter(id => !keyring.get(id))
+            .map(id => ({ id, current: false, liveCodes: counts[id], missing: true }));
+
+        return c.json({
+            success: true,
+            data: [...keys, ...missing]
+        });
+    } catch (error) {
+        console.error("Get keys error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 吊销激活码（同时使其所有激活记录失效）
+ * POST /super/code/revoke
+ * Body: {
+ *   "code": "激活码",          // 或 "codeHash": "激活码哈希"
+ *   "reason": "退款"            // 吊销原因（可选）
+ * }
+ */
+superAdmin.post("/code/revoke", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const body = await c.req.json();
+        const { reason } = body;
+
+        const codeHash = await resolveCodeHash(c.env, body);
+        if (!codeHash) {
+            return c.json({ success: false, message: "Invalid code or codeHash" }, 400);
+        }
+
+        if (reason !== undefined && typeof reason !== "string") {
+            return c.json({ success: false, message: "Invalid reason" }, 400);
+        }
+
+        const record = await Revocation.revoke(c.env.AUTH_KV, codeHash, reason);
+        await auditAdmin(c, createStore(c.env), { action: "code.revoke", success: true, codeHash, detail: reason });
+
+        return c.json({
+            success: true,
+            message: "Activation code revoked successfully",
+            data: record
+        });
+    } catch (error) {
+        console.error("Revoke code error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 撤销激活码吊销
+ * POST /super/code/unrevoke
+ * Body: { "code": "激活码" } 或 { "codeHash": "激活码哈希" }
+ */
+superAdmin.post("/code/unrevoke", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const body = await c.req.json();
+
+        const codeHash = await resolveCodeHash(c.env, body);
+        if (!codeHash) {
+            return c.json({ success: false, message: "Invalid code or codeHash" }, 400);
+        }
+
+        const success = await Revocation.unrevoke(c.env.AUTH_KV, codeHash);
+        await auditAdmin(c, createStore(c.env), { action: "code.unrevoke", success, codeHash });
+
+        if (!success) {
+            return c.json({ success: false, message: "Activation code is not revoked" }, 400);
+        }
+
+        return c.json({
+            success: true,
+            message: "Activation code restored successfully",
+            data: { codeHash }
+        });
+    } catch (error) {
+        console.error("Unrevoke code error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 查看浮动授权激活码当前的席位持有者
+ * POST /super/code/leases
+ * Body: { "code": "激活码" } 或 { "codeHash": "激活码哈希" }
+ */
+superAdmin.post("/code/leases", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const codeHash = await resolveCodeHash(c.env, await c.req.json());
+        if (!codeHash) {
+            return c.json({ success: false, message: "Invalid code or codeHash" }, 400);
+        }
+
+        const leases = (await Code.leases(createStore(c.env), codeHash)).map(l => ({
+            ...l,
+            checkedOutDate: new Date(l.checkedOutAt).toISOString(),
+            expiresDate: new Date(l.expiresAt).toISOString()
+        }));
+
+        return c.json({
+            success: true,
+            data: leases,
+            count: leases.length
+        });
+    } catch (error) {
+        console.error("Get leases error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 强制释放浮动授权席位
+ * POST /super/code/lease/release
+ * Body: { "code": "激活码" 或 "codeHash": "激活码哈希", "leaseId": "租约 ID" }
+ */
+superAdmin.post("/code/lease/release", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "manage");
 
-    const { SUPER_ADMIN_KEY, SUPER_ADMIN_IP } = c.env;
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
 
-    if (!SUPER_ADMIN_KEY || !SUPER_ADMIN_IP) {
-        console.error("Super admin config missing");
-        return false;
-    }
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
 
-    // 1. 校验 Admin Key
-    const xAuth = c.req.header("X-Authorization-A") || "";
-    if (xAuth !== SUPER_ADMIN_KEY) {
-        console.log("Admin auth failed: invalid key");
-        return false;
-    }
+        const body = await c.req.json();
+        const { leaseId } = body;
 
-    // 2. IP 白名单校验（支持 , 和 ;）
-    const clientIp = getClientIP(c.req.raw);
+        const codeHash = await resolveCodeHash(c.env, body);
+        if (!codeHash) {
+            return c.json({ success: false, message: "Invalid code or codeHash" }, 400);
+        }
 
-    const allowedIPs = SUPER_ADMIN_IP
-        .split(/[;,]/)          // 同时支持 , ;
-        .map(ip => ip.trim())
-        .filter(ip => ip.length > 0);
+        if (!leaseId || typeof leaseId !== "string") {
+            return c.json({ success: false, message: "Invalid leaseId" }, 400);
+        }
 
-    // 防御性校验：配置异常直接拒绝
-    if (allowedIPs.length === 0) {
-        console.error("SUPER_ADMIN_IP is empty after parsing");
-        return false;
+        const store = createStore(c.env);
+        const success = await Code.revokeSeat(store, codeHash, leaseId);
+        await auditAdmin(c, store, { action: "lease.release", success, codeHash, detail: leaseId });
+
+        if (!success) {
+            return c.json({ success: false, message: "Lease not found or expired" }, 400);
+        }
+
+        return c.json({
+            success: true,
+            message: "Lease released successfully",
+            data: { codeHash, leaseId }
+        });
+    } catch (error) {
+        console.error("Release lease error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
     }
+});
 
-    return allowedIPs.includes(clientIp);
-}
+/**
+ * 获取吊销列表
+ * GET /super/code/revocations
+ */
+superAdmin.get("/code/revocations", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "read");
 
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const revocations = await Revocation.list(c.env.AUTH_KV);
+        return c.json({
+            success: true,
+            data: revocations,
+            count: revocations.length
+        });
+    } catch (error) {
+        console.error("Get revocations error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
 
 /**
- * 获取所有产品列表
- * GET /super/products
+ * 查询审计日志（按时间倒序）
+ * GET /super/audit
+ * Query: ?action=code.activate&productId=&codeHash=&activationUuid=&from=2026-01-01&to=2026-02-01&limit=100
+ * 使用 D1 存储时走索引查询，KV 存储需按时间倒序扫描
  */
-superAdmin.get("/products", async (c) => {
+superAdmin.get("/audit", async (c) => {
     try {
         // 超级管理员认证
-        const isAuthed = await authSuperAdmin(c);
+        const isAuthed = await authSuperAdmin(c, "read");
 
         if (!isAuthed) {
             return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        const products = await Product.gets(c.env.AUTH_KV);
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const { action, productId, codeHash, activationUuid, from, to, limit } = c.req.query();
+
+        const fromDate = from ? new Date(from) : null;
+        const toDate = to ? new Date(to) : null;
+        const limitNum = limit ? parseInt(limit, 10) : undefined;
+
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+            return c.json({ success: false, message: "Invalid from/to date" }, 400);
+        }
+
+        if (limitNum !== undefined && (isNaN(limitNum) || limitNum <= 0)) {
+            return c.json({ success: false, message: "Invalid limit" }, 400);
+        }
+
+        const events = await Audit.query(createStore(c.env), {
+            action: (action as AuditAction) || undefined,
+            productId: productId || undefined,
+            codeHash: codeHash || undefined,
+            activationUuid: activationUuid || undefined,
+            from: fromDate ? serverT.fromDate(fromDate) : undefined,
+            to: toDate ? serverT.fromDate(toDate) : undefined,
+            limit: limitNum
+        });
+
         return c.json({
             success: true,
-            data: products,
-            count: products.length
+            data: events,
+            count: events.length
         });
     } catch (error) {
-        console.error("Get products error:", error);
+        console.error("Query audit log error:", error);
         return c.json({ success: false, message: "Internal server error" }, 500);
     }
 });
 
 /**
- * 添加新产品
- * POST /super/product
- * Body: { "name": "产品名称" }
+ * 查看产品使用统计（生成、激活、重新认证、失败次数按 UTC 日期汇总，以及当前有效激活数）
+ * GET /super/stats
+ * Query: ?productId=&from=2026-01-01&to=2026-01-30
+ * 默认最近 30 天，单次最多 366 天；未指定 productId 时返回所有产品（含已归档）
  */
-superAdmin.post("/product", async (c) => {
+superAdmin.get("/stats", async (c) => {
     try {
         // 超级管理员认证
-        const isAuthed = await authSuperAdmin(c);
+        const isAuthed = await authSuperAdmin(c, "read");
 
         if (!isAuthed) {
             return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        const body = await c.req.json();
-        const { name } = body;
+        const { productId } = c.req.query();
+        const to = c.req.query("to") || Stats.day();
+        const from = c.req.query("from") || (Stats.isDay(to) ? Stats.addDays(to, 1 - CONFIG.STATS_DEFAULT_DAYS) : "");
 
-        if (!name || typeof name !== "string") {
-            return c.json({ success: false, message: "Invalid product name" }, 400);
+        if (!Stats.isDay(from) || !Stats.isDay(to) || from > to) {
+            return c.json({ success: false, message: "Invalid from/to date (YYYY-MM-DD)" }, 400);
         }
 
-        const [success, productId] = await Product.set(c.env.AUTH_KV, name);
+        if (Stats.span(from, to) > CONFIG.STATS_MAX_DAYS) {
+            return c.json({ success: false, message: `Date range must not exceed ${CONFIG.STATS_MAX_DAYS} days` }, 400);
+        }
 
-        if (!success) {
-            return c.json({
-                success: false,
-                message: "Product already exists or invalid name"
-            }, 400);
+        if (productId && !canAccessProduct(c, productId)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const store = createStore(c.env);
+        const products = (await Product.gets(store))
+            .filter(p => (!productId || p.id === productId) && canAccessProduct(c, p.id));
+
+        if (productId && products.length === 0) {
+            return c.json({ success: false, message: "Product not found" }, 404);
         }
 
         return c.json({
             success: true,
-            message: "Product created successfully",
-            data: { name, id: productId }
+            data: {
+                from,
+                to,
+                products: await Stats.report(store, products, from, to)
+            }
         });
     } catch (error) {
-        console.error("Create product error:", error);
+        console.error("Get stats error:", error);
         return c.json({ success: false, message: "Internal server error" }, 500);
     }
 });
 
 /**
- * 检查产品名是否存在
- * GET /super/product/check/:name
+ * 查看当前的限流锁定
+ * GET /super/rate-limits
  */
-superAdmin.get("/product/check/:name", async (c) => {
+superAdmin.get("/rate-limits", async (c) => {
     try {
         // 超级管理员认证
-        const isAuthed = await authSuperAdmin(c);
+        const isAuthed = await authSuperAdmin(c, "read");
 
         if (!isAuthed) {
             return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        const name = c.req.param("name");
-        const exists = await Product.existsName(c.env.AUTH_KV, name);
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
+        }
+
+        const lockouts = (await RateLimit.list(c.env.AUTH_KV)).map(l => ({
+            ...l,
+            lockedUntilDate: new Date(l.lockedUntil).toISOString()
+        }));
 
         return c.json({
             success: true,
-            exists,
-            name
+            data: lockouts,
+            count: lockouts.length
         });
     } catch (error) {
-        console.error("Check product error:", error);
+        console.error("Get rate limits error:", error);
         return c.json({ success: false, message: "Internal server error" }, 500);
     }
 });
 
 /**
- * 根据产品名生成激活码
- * POST /super/code/generate
+ * 解除限流锁定（同时清零计数与升级次数）
+ * POST /super/rate-limit/clear
  * Body: {
- *   "productName": "产品名称",
- *   "expirationPeriod": 2592000,    // 激活码有效期（秒），如 30天
- *   "activationDuration": 31536000, // 激活后的使用时长（秒），如 1年
- *   "amount": 1                     // 可使用次数
+ *   "rule": "authIp",          // exchange / session / authIp / authCode
+ *   "id": "1.2.3.4"             // IP、会话 client_uuid 或激活码哈希
  * }
  */
-superAdmin.post("/code/generate", async (c) => {
+superAdmin.post("/rate-limit/clear", async (c) => {
     try {
         // 超级管理员认证
-        const isAuthed = await authSuperAdmin(c);
+        const isAuthed = await authSuperAdmin(c, "manage");
 
         if (!isAuthed) {
             return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        const body = await c.req.json();
-        const { productName, expirationPeriod, activationDuration, amount } = body;
-
-        // 参数验证
-        if (!productName || typeof productName !== "string") {
-            return c.json({ success: false, message: "Invalid productName" }, 400);
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
         }
 
-        if (typeof expirationPeriod !== "number" || expirationPeriod <= 0) {
-            return c.json({ success: false, message: "Invalid expirationPeriod" }, 400);
+        const { rule, id } = await c.req.json();
+
+        if (!RATE_RULES.includes(rule)) {
+            return c.json({ success: false, message: `Invalid rule (must be one of: ${RATE_RULES.join(", ")})` }, 400);
         }
 
-        if (typeof activationDuration !== "number" || activationDuration <= 0) {
-            return c.json({ success: false, message: "Invalid activationDuration" }, 400);
+        if (!id || typeof id !== "string") {
+            return c.json({ success: false, message: "Invalid id" }, 400);
         }
 
-        if (typeof amount !== "number" || amount <= 0 || !Number.isInteger(amount)) {
-            return c.json({ success: false, message: "Invalid amount" }, 400);
+        const existed = await RateLimit.clear(c.env.AUTH_KV, c.env.COORDINATOR, rule as RateRule, id);
+
+        if (!existed) {
+            return c.json({ success: false, message: "No rate limit state for this id" }, 400);
         }
 
-        const [success, code] = await Code.gent(
-            c.env.AUTH_KV,
-            c.env.SERVER_KEY,
-            productName,
-            expirationPeriod,
-            activationDuration,
-            amount
-        );
+        return c.json({
+            success: true,
+            message: "Rate limit cleared successfully",
+            data: { rule, id }
+        });
+    } catch (error) {
+        console.error("Clear rate limit error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
 
-        if (!success) {
-            return c.json({
-                success: false,
-                message: "Product not found or code generation failed"
-            }, 400);
+/**
+ * 列出管理员（含已吊销，不返回 Key）
+ * GET /super/admins
+ */
+superAdmin.get("/admins", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "admin");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
+        }
+
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
         }
 
+        const admins = await AdminKey.list(createStore(c.env));
+
         return c.json({
             success: true,
-            message: "Activation code generated successfully",
-            data: {
-                code,
-                productName,
-                expirationPeriod,
-                activationDuration,
-                amount
-            }
+            data: [AdminKey.ROOT, ...admins],
+            count: admins.length + 1
         });
     } catch (error) {
-        console.error("Generate code error:", error);
+        console.error("List admins error:", error);
         return c.json({ success: false, message: "Internal server error" }, 500);
     }
 });
 
 /**
- * 根据产品ID生成激活码
- * POST /super/code/generate-by-id
+ * 签发管理员 API Key（Key 原文只在此返回一次）
+ * POST /super/admin/create
  * Body: {
- *   "productId": "产品ID",
- *   "expirationPeriod": 2592000,
- *   "activationDuration": 31536000,
- *   "amount": 1
+ *   "name": "ci-bot",              // 唯一名称，记录在审计日志中
+ *   "role": "generator",           // viewer | generator | operator | owner
+ *   "scopes": ["read", "generate"], // 或直接指定权限范围（与 role 二选一）
+ *   "products": ["产品ID"]          // 限定可操作的产品（可选，省略时不限，最多 CONFIG.ADMIN_MAX_PRODUCTS 个）
  * }
  */
-superAdmin.post("/code/generate-by-id", async (c) => {
+superAdmin.post("/admin/create", async (c) => {
     try {
         // 超级管理员认证
-        const isAuthed = await authSuperAdmin(c);
+        const isAuthed = await authSuperAdmin(c, "admin");
 
         if (!isAuthed) {
             return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        const body = await c.req.json();
-        const { productId, expirationPeriod, activationDuration, amount } = body;
-
-        // 参数验证
-        if (!productId || typeof productId !== "string") {
-            return c.json({ success: false, message: "Invalid productId" }, 400);
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
         }
 
-        if (typeof expirationPeriod !== "number" || expirationPeriod <= 0) {
-            return c.json({ success: false, message: "Invalid expirationPeriod" }, 400);
+        const store = createStore(c.env);
+
+        const { name, role, scopes, products } = await c.req.json();
+
+        if (!AdminKey.isValidName(name)) {
+            return c.json({ success: false, message: "Invalid name (1-32 characters: letters, digits, _ . @ -; \"admin\" is reserved)" }, 400);
         }
 
-        if (typeof activationDuration !== "number" || activationDuration <= 0) {
-            return c.json({ success: false, message: "Invalid activationDuration" }, 400);
+        let adminScopes: AdminScope[];
+        if (role !== undefined) {
+            if (typeof role !== "string" || !Object.hasOwn(ADMIN_ROLES, role)) {
+                return c.json({
+                    success: false,
+                    message: `Invalid role (must be one of: ${Object.keys(ADMIN_ROLES).join(", ")})`
+                }, 400);
+            }
+            adminScopes = [...ADMIN_ROLES[role]];
+        } else {
+            if (
+                !Array.isArray(scopes) || scopes.length === 0 ||
+                !scopes.every(s => ADMIN_SCOPES.includes(s))
+            ) {
+                return c.json({
+                    success: false,
+                    message: `Invalid scopes (must be a non-empty subset of: ${ADMIN_SCOPES.join(", ")})`
+                }, 400);
+            }
+            adminScopes = scopes;
         }
 
-        if (typeof amount !== "number" || amount <= 0 || !Number.isInteger(amount)) {
-            return c.json({ success: false, message: "Invalid amount" }, 400);
+        if (products !== undefined) {
+            if (
+                !Array.isArray(products) || products.length === 0 || products.length > CONFIG.ADMIN_MAX_PRODUCTS ||
+                !products.every(id => typeof id === "string")
+            ) {
+                return c.json({
+                    success: false,
+                    message: `Invalid products (1-${CONFIG.ADMIN_MAX_PRODUCTS} product IDs)`
+                }, 400);
+            }
+
+            const productIds = new Set((await Product.gets(store)).map(p => p.id));
+            const unknown = products.filter(id => !productIds.has(id));
+            if (unknown.length > 0) {
+                return c.json({ success: false, message: `Product not found: ${unknown.join(", ")}` }, 404);
+            }
         }
 
-        const [success, code] = await Code.gentId(
-            c.env.AUTH_KV,
-            c.env.SERVER_KEY,
-            productId,
-            expirationPeriod,
-            activationDuration,
-            amount
+        const [success, admin, key] = await AdminKey.create(
+            store,
+            name,
+            adminScopes,
+            products ? [...new Set<string>(products)] : undefined,
+            c.get("admin").name
         );
 
-        if (!success) {
-            return c.json({
-                success: false,
-                message: "Product not found or code generation failed"
-            }, 400);
+        if (!success || !admin) {
+            return c.json({ success: false, message: "Admin name already exists" }, 400);
         }
 
+        await auditAdmin(c, store, {
+            action: "admin.create",
+            success: true,
+            detail: JSON.stringify({ id: admin.id, name: admin.name, scopes: admin.scopes, products: admin.products })
+        });
+
         return c.json({
             success: true,
-            message: "Activation code generated successfully",
-            data: {
-                code,
-                productId,
-                expirationPeriod,
-                activationDuration,
-                amount
-            }
+            message: "Admin key created, it will not be shown again",
+            data: { admin, key }
         });
     } catch (error) {
-        console.error("Generate code by id error:", error);
+        console.error("Create admin error:", error);
         return c.json({ success: false, message: "Internal server error" }, 500);
     }
 });
 
 /**
- * 批量生成激活码
- * POST /super/code/batch-generate
- * Body: {
- *   "productName": "产品名称",
- *   "expirationPeriod": 2592000,
- *   "activationDuration": 31536000,
- *   "amount": 1,
- *   "count": 10  // 生成数量
- * }
+ * 吊销管理员 API Key（立即失效，不可恢复）
+ * POST /super/admin/:id/revoke
  */
-superAdmin.post("/code/batch-generate", async (c) => {
+superAdmin.post("/admin/:id/revoke", async (c) => {
     try {
         // 超级管理员认证
-        const isAuthed = await authSuperAdmin(c);
+        const isAuthed = await authSuperAdmin(c, "admin");
 
         if (!isAuthed) {
             return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        const body = await c.req.json();
-        const { productName, expirationPeriod, activationDuration, amount, count } = body;
-
-        // 参数验证
-        if (!productName || typeof productName !== "string") {
-            return c.json({ success: false, message: "Invalid productName" }, 400);
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
         }
 
-        if (typeof expirationPeriod !== "number" || expirationPeriod <= 0) {
-            return c.json({ success: false, message: "Invalid expirationPeriod" }, 400);
-        }
+        const store = createStore(c.env);
 
-        if (typeof activationDuration !== "number" || activationDuration <= 0) {
-            return c.json({ success: false, message: "Invalid activationDuration" }, 400);
+        const [success, admin] = await AdminKey.revoke(store, c.req.param("id"));
+
+        if (!success || !admin) {
+            return c.json({ success: false, message: "Admin not found" }, 404);
         }
 
-        if (typeof amount !== "number" || amount <= 0 || !Number.isInteger(amount)) {
-            return c.json({ success: false, message: "Invalid amount" }, 400);
+        await auditAdmin(c, store, {
+            action: "admin.revoke",
+            success: true,
+            detail: JSON.stringify({ id: admin.id, name: admin.name })
+        });
+
+        return c.json({
+            success: true,
+            message: "Admin key revoked successfully",
+            data: admin
+        });
+    } catch (error) {
+        console.error("Revoke admin error:", error);
+        return c.json({ success: false, message: "Internal server error" }, 500);
+    }
+});
+
+/**
+ * 重置管理员的 TOTP 登记（丢失身份验证器时使用，对方须重新登记）
+ * POST /super/admin/:id/totp/reset
+ * 内置管理员的 id 为 root
+ */
+superAdmin.post("/admin/:id/totp/reset", async (c) => {
+    try {
+        // 超级管理员认证
+        const isAuthed = await authSuperAdmin(c, "admin");
+
+        if (!isAuthed) {
+            return c.json({ success: false, message: "Unauthorized" }, 401);
         }
 
-        if (typeof count !== "number" || count <= 0 || count > 100 || !Number.isInteger(count)) {
-            return c.json({
-                success: false,
-                message: "Invalid count (must be 1-100)"
-            }, 400);
+        if (!isUnrestricted(c)) {
+            return c.json({ success: false, message: "Forbidden" }, 403);
         }
 
-        // 批量生成
-        const codes: string[] = [];
-        for (let i = 0; i < count; i++) {
-            const [success, code] = await Code.gent(
-                c.env.AUTH_KV,
-                c.env.SERVER_KEY,
-                productName,
-                expirationPeriod,
-                activationDuration,
-                amount
-            );
+        const store = createStore(c.env);
 
-            if (!success) {
-                return c.json({
-                    success: false,
-                    message: `Failed to generate code ${i + 1}`
-                }, 500);
-            }
+        const id = c.req.param("id");
+        const admin = [AdminKey.ROOT, ...await AdminKey.list(store)].find(a => a.id === id);
 
-            codes.push(code);
+        if (!admin) {
+            return c.json({ success: false, message: "Admin not found" }, 404);
         }
 
+        await store.deleteAdminTotp(id);
+
+        await auditAdmin(c, store, {
+            action: "admin.totp.reset",
+            success: true,
+            detail: JSON.stringify({ id: admin.id, name: admin.name })
+        });
+
         return c.json({
             success: true,
-            message: `Successfully generated ${count} activation codes`,
-            data: {
-                codes,
-                productName,
-                count,
-                expirationPeriod,
-                activationDuration,
-                amount
-            }
+            message: "TOTP reset successfully",
+            data: admin
         });
     } catch (error) {
-        console.error("Batch generate codes error:", error);
+        console.error("Reset TOTP error:", error);
         return c.json({ success: false, message: "Internal server error" }, 500);
     }
 });
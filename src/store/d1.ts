@@ -0,0 +1,747 @@
+﻿// store/d1.ts
+import type {
+    AdminScope, AuditAction, CodeFormat, CodeMode, IActivation, IActivationQuery, IAdmin, IAdminTotp, IAuditEvent,
+    IAuditQuery, IBatch, ICodeInfo, ICodeMeta, ICodeMetaQuery, IDailyStats, IIssuedCode, IProduct, IShortCode, IStatsQuery, IStore, ITransferInfo,
+    ProductStatus, StatsField
+} from "./store";
+import {Lock, LockNamespace} from "../tool/lock";
+import {serverT} from "../tool/tool";
+import {CONFIG} from "../config";
+
+interface ProductRow {
+    id: string;
+    name: string;
+    status: string;
+    templates: string;
+    features: string;
+    trial: string | null;
+    code_format: string | null;
+}
+
+interface ShortCodeRow {
+    code_hash: string;
+    product_id: string;
+    expiration_time: number;
+    activation_duration: number;
+    amount: number;
+    features: string;
+    mode: string;
+    created_time: number;
+}
+
+interface BatchRow {
+    id: string;
+    label: string;
+    product_id: string;
+    count: number;
+    format: string;
+    mode: string;
+    expiration_time: number;
+    activation_duration: number;
+    amount: number;
+    features: string;
+    created_time: number;
+    revoked_count: number;
+    revoked_time: number | null;
+}
+
+/** 批次列表与详情不读取激活码原文 */
+const BATCH_COLUMNS = `id, label, product_id, count, format, mode, expiration_time, activation_duration, amount, features,
+    created_time, revoked_count, revoked_time`;
+
+interface CodeMetaRow {
+    code_hash: string;
+    product_id: string;
+    fields: string;
+    batch_id: string | null;
+    created_time: number;
+}
+
+interface AdminRow {
+    id: string;
+    name: string;
+    key_hash: string;
+    scopes: string;
+    products: string | null;
+    created_time: number;
+    created_by: string;
+    revoked_time: number | null;
+}
+
+interface AdminTotpRow {
+    admin_id: string;
+    secret: string;
+    confirmed: number;
+    last_step: number;
+    created_time: number;
+}
+
+interface ActivationRow {
+    uuid: string;
+    code_hash: string;
+    product_id: string | null;
+    binding: string;
+    amount: number;
+    features: string;
+    created_time: number;
+    expiration_time: number;
+    trial: number;
+}
+
+interface AuditRow {
+    id: string;
+    time: number;
+    action: string;
+    success: number;
+    actor: string;
+    ip: string;
+    product_id: string | null;
+    code_hash: string | null;
+    activation_uuid: string | null;
+    detail: string | null;
+}
+
+interface StatsRow {
+    product_id: string;
+    day: string;
+    issued: number;
+    redeemed: number;
+    reauths: number;
+    failures: number;
+}
+
+/**
+ * D1 (SQLite) 存储实现
+ * 表结构见 migrations/，过期的激活记录由查询条件过滤
+ */
+export class D1Store implements IStore {
+    private static readonly PRODUCT_LOCK = "product";
+    private static readonly MAX_QUERY_LIMIT = 1000;
+
+    readonly batchMaxCount = CONFIG.BATCH_MAX_COUNT;
+
+    constructor(private readonly db: D1Database, readonly kv: KVNamespace, readonly lock: LockNamespace) {
+    }
+
+    async getProducts(): Promise<IProduct[]> {
+        const { results } = await this.db
+            .prepare("SELECT id, name, status, templates, features, trial, code_format FROM products ORDER BY rowid")
+            .all<ProductRow>();
+
+        return results.map(row => ({
+            id: row.id,
+            name: row.name,
+            status: row.status as ProductStatus,
+            templates: JSON.parse(row.templates),
+            features: JSON.parse(row.features),
+            trial: row.trial ? JSON.parse(row.trial) : undefined,
+            codeFormat: (row.code_format as CodeFormat | null) ?? undefined
+        }));
+    }
+
+    async modifyProducts<T>(mutate: (products: IProduct[]) => [boolean, T]): Promise<[boolean, T]> {
+        const token = await Lock.waitAndAcquire(this.lock, D1Store.PRODUCT_LOCK);
+        try {
+            const products = await this.getProducts();
+            const [changed, result] = mutate(products);
+
+            if (changed) {
+                const upsert = this.db.prepare(
+                    `INSERT INTO products (id, name, status, templates, features, trial, code_format)
+                     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+                     ON CONFLICT (id) DO UPDATE SET
+                        name = excluded.name,
+                        status = excluded.status,
+                        templates = excluded.templates,
+                        features = excluded.features,
+                        trial = excluded.trial,
+                        code_format = excluded.code_format`
+                );
+
+                await this.db.batch(products.map(p => upsert.bind(
+                    p.id,
+                    p.name,
+                    p.status ?? "active",
+                    JSON.stringify(p.templates ?? []),
+                    JSON.stringify(p.features ?? []),
+                    p.trial ? JSON.stringify(p.trial) : null,
+                    p.codeFormat ?? null
+                )));
+            }
+
+            return [changed, result];
+        } finally {
+            await Lock.release(this.lock, D1Store.PRODUCT_LOCK, token);
+        }
+    }
+
+    async getUsed(codeHash: string): Promise<number | null> {
+        return this.db
+            .prepare("SELECT used FROM codes WHERE code_hash = ?1")
+            .bind(codeHash)
+            .first<number>("used");
+    }
+
+    async incrementUsed(codeHash: string, limit: number): Promise<number> {
+        // 同一批次在单个事务中执行，条件更新保证不会超过上限
+        const [, updated] = await this.db.batch<{ used: number }>([
+            this.db.prepare("INSERT INTO codes (code_hash) VALUES (?1) ON CONFLICT (code_hash) DO NOTHING")
+                .bind(codeHash),
+            this.db.prepare("UPDATE codes SET used = used + 1 WHERE code_hash = ?1 AND used < ?2 RETURNING used")
+                .bind(codeHash, limit)
+        ]);
+
+        return updated.results[0]?.used ?? -1;
+    }
+
+    async decrementUsed(codeHash: string): Promise<number> {
+        const used = await this.db
+            .prepare("UPDATE codes SET used = MAX(used - 1, 0) WHERE code_hash = ?1 RETURNING used")
+            .bind(codeHash)
+            .first<number>("used");
+
+        return used ?? 0;
+    }
+
+    async putIssuedCodes(issued: IIssuedCode[]): Promise<void> {
+        if (issued.length === 0) return;
+
+        const insert = this.db.prepare(
+            `INSERT INTO issued_codes (code_hash, key_id, product_id, created_time, expiration_time)
+             VALUES (?1, ?2, ?3, ?4, ?5) ON CONFLICT (code_hash) DO NOTHING`
+        );
+
+        await this.db.batch(issued.map(i => insert.bind(
+            i.codeHash, i.keyId, i.productId, i.createdTime, i.expirationTime
+        )));
+    }
+
+    async countIssuedCodesByKey(): Promise<Record<string, number>> {
+        const { results } = await this.db
+            .prepare("SELECT key_id, COUNT(*) AS count FROM issued_codes WHERE expiration_time > ?1 GROUP BY key_id")
+            .bind(serverT.now())
+            .all<{ key_id: string; count: number }>();
+
+        return Object.fromEntries(results.map(r => [r.key_id, r.count]));
+    }
+
+    async putShortCodes(shortCodes: IShortCode[]): Promise<void> {
+        if (shortCodes.length === 0) return;
+
+        const insert = this.db.prepare(
+            `INSERT INTO short_codes
+                (code_hash, product_id, expiration_time, activation_duration, amount, features, mode, created_time)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`
+        );
+
+        await this.db.batch(shortCodes.map(s => insert.bind(
+            s.codeHash, s.productId, s.expirationTime, s.activationDuration, s.amount,
+            JSON.stringify(s.features), s.mode, s.createdTime
+        )));
+    }
+
+    async getShortCode(codeHash: string): Promise<IShortCode | null> {
+        const row = await this.db
+            .prepare("SELECT * FROM short_codes WHERE code_hash = ?1 AND expiration_time > ?2")
+            .bind(codeHash, serverT.now())
+            .first<ShortCodeRow>();
+
+        if (!row) return null;
+
+        return {
+            codeHash: row.code_hash,
+            productId: row.product_id,
+            expirationTime: row.expiration_time,
+            activationDuration: row.activation_duration,
+            amount: row.amount,
+            features: JSON.parse(row.features),
+            mode: row.mode as CodeMode,
+            createdTime: row.created_time
+        };
+    }
+
+    async putBatch(batch: IBatch, codes: string[]): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT INTO batches
+                    (id, label, product_id, count, format, mode, expiration_time, activation_duration, amount, features,
+                     created_time, codes)
+                 VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)`
+            )
+            .bind(
+                batch.id,
+                batch.label,
+                batch.productId,
+                batch.count,
+                batch.format,
+                batch.mode,
+                batch.expirationTime,
+                batch.activationDuration,
+                batch.amount,
+                JSON.stringify(batch.features),
+                batch.createdTime,
+                JSON.stringify(codes)
+            )
+            .run();
+    }
+
+    async getBatch(id: string): Promise<IBatch | null> {
+        const row = await this.db
+            .prepare(`SELECT ${BATCH_COLUMNS} FROM batches WHERE id = ?1`)
+            .bind(id)
+            .first<BatchRow>();
+
+        return row ? D1Store.toBatch(row) : null;
+    }
+
+    async listBatches(productId?: string): Promise<IBatch[]> {
+        const statement = productId
+            ? this.db
+                .prepare(`SELECT ${BATCH_COLUMNS} FROM batches WHERE product_id = ?1 ORDER BY created_time DESC`)
+                .bind(productId)
+            : this.db.prepare(`SELECT ${BATCH_COLUMNS} FROM batches ORDER BY created_time DESC`);
+
+        const { results } = await statement.all<BatchRow>();
+        return results.map(row => D1Store.toBatch(row));
+    }
+
+    async getBatchCodes(id: string): Promise<string[]> {
+        const codes = await this.db
+            .prepare("SELECT codes FROM batches WHERE id = ?1")
+            .bind(id)
+            .first<string>("codes");
+
+        return codes ? JSON.parse(codes) : [];
+    }
+
+    async setBatchRevoked(id: string, revokedCount: number, revokedTime?: number): Promise<boolean> {
+        const result = await this.db
+            .prepare("UPDATE batches SET revoked_count = ?2, revoked_time = ?3 WHERE id = ?1")
+            .bind(id, revokedCount, revokedTime ?? null)
+            .run();
+
+        return result.meta.changes > 0;
+    }
+
+    async putCodeMeta(metas: ICodeMeta[]): Promise<void> {
+        if (metas.length === 0) return;
+
+        const upsert = this.db.prepare(
+            `INSERT INTO code_meta (code_hash, product_id, fields, batch_id, created_time)
+             VALUES (?1, ?2, ?3, ?4, ?5)
+             ON CONFLICT (code_hash) DO UPDATE SET fields = excluded.fields`
+        );
+
+        await this.db.batch(metas.map(m => upsert.bind(
+            m.codeHash, m.productId, JSON.stringify(m.fields), m.batchId ?? null, m.createdTime
+        )));
+    }
+
+    async getCodeMeta(codeHash: string): Promise<ICodeMeta | null> {
+        const row = await this.db
+            .prepare("SELECT * FROM code_meta WHERE code_hash = ?1")
+            .bind(codeHash)
+            .first<CodeMetaRow>();
+
+        return row ? D1Store.toCodeMeta(row) : null;
+    }
+
+    async searchCodeMeta(query: ICodeMetaQuery): Promise<ICodeMeta[]> {
+        // LIKE 对 ASCII 字符不区分大小写；转义通配符，按字面子串匹配
+        const pattern = `%${query.q.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+        const conditions = [
+            `EXISTS (SELECT 1 FROM json_each(code_meta.fields)
+                     WHERE value LIKE ?1 ESCAPE '\\'${query.field ? " AND key = ?2" : ""})`
+        ];
+        const params: string[] = [pattern];
+
+        if (query.field) {
+            params.push(query.field);
+        }
+        if (query.productId) {
+            conditions.push(`product_id = ?${params.length + 1}`);
+            params.push(query.productId);
+        }
+
+        const limit = Math.min(query.limit ?? D1Store.MAX_QUERY_LIMIT, D1Store.MAX_QUERY_LIMIT);
+        const { results } = await this.db
+            .prepare(
+                `SELECT * FROM code_meta WHERE ${conditions.join(" AND ")}
+                 ORDER BY created_time DESC, rowid DESC LIMIT ${limit}`
+            )
+            .bind(...params)
+            .all<CodeMetaRow>();
+
+        return results.map(row => D1Store.toCodeMeta(row));
+    }
+
+    async putAdmin(admin: IAdmin): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT INTO admins (id, name, key_hash, scopes, products, created_time, created_by, revoked_time)
+                 VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)
+                 ON CONFLICT (id) DO UPDATE SET
+                    name = excluded.name,
+                    scopes = excluded.scopes,
+                    products = excluded.products,
+                    revoked_time = excluded.revoked_time`
+            )
+            .bind(
+                admin.id,
+                admin.name,
+                admin.keyHash,
+                JSON.stringify(admin.scopes),
+                admin.products ? JSON.stringify(admin.products) : null,
+                admin.createdTime,
+                admin.createdBy,
+                admin.revokedTime ?? null
+            )
+            .run();
+    }
+
+    async getAdminByKeyHash(keyHash: string): Promise<IAdmin | null> {
+        const row = await this.db
+            .prepare("SELECT * FROM admins WHERE key_hash = ?1")
+            .bind(keyHash)
+            .first<AdminRow>();
+
+        return row ? D1Store.toAdmin(row) : null;
+    }
+
+    async listAdmins(): Promise<IAdmin[]> {
+        const { results } = await this.db
+            .prepare("SELECT * FROM admins ORDER BY created_time, rowid")
+            .all<AdminRow>();
+
+        return results.map(row => D1Store.toAdmin(row));
+    }
+
+    async putAdminTotp(totp: IAdminTotp): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT OR REPLACE INTO admin_totp (admin_id, secret, confirmed, last_step, created_time)
+                 VALUES (?1, ?2, ?3, ?4, ?5)`
+            )
+            .bind(totp.adminId, totp.secret, totp.confirmed ? 1 : 0, totp.lastStep, totp.createdTime)
+            .run();
+    }
+
+    async getAdminTotp(adminId: string): Promise<IAdminTotp | null> {
+        const row = await this.db
+            .prepare("SELECT * FROM admin_totp WHERE admin_id = ?1")
+            .bind(adminId)
+            .first<AdminTotpRow>();
+
+        return row ? {
+            adminId: row.admin_id,
+            secret: row.secret,
+            confirmed: row.confirmed === 1,
+            lastStep: row.last_step,
+            createdTime: row.created_time
+        } : null;
+    }
+
+    async useAdminTotpStep(totp: IAdminTotp, step: number): Promise<boolean> {
+        const result = await this.db
+            .prepare(
+                `UPDATE admin_totp SET last_step = ?3, confirmed = 1
+                 WHERE admin_id = ?1 AND secret = ?2 AND last_step < ?3`
+            )
+            .bind(totp.adminId, totp.secret, step)
+            .run();
+
+        return result.meta.changes > 0;
+    }
+
+    async deleteAdminTotp(adminId: string): Promise<void> {
+        await this.db
+            .prepare("DELETE FROM admin_totp WHERE admin_id = ?1")
+            .bind(adminId)
+            .run();
+    }
+
+    private static toAdmin(row: AdminRow): IAdmin {
+        return {
+            id: row.id,
+            name: row.name,
+            keyHash: row.key_hash,
+            scopes: JSON.parse(row.scopes) as AdminScope[],
+            products: row.products ? JSON.parse(row.products) : undefined,
+            createdTime: row.created_time,
+            createdBy: row.created_by,
+            revokedTime: row.revoked_time ?? undefined
+        };
+    }
+
+    private static toCodeMeta(row: CodeMetaRow): ICodeMeta {
+        return {
+            codeHash: row.code_hash,
+            productId: row.product_id,
+            fields: JSON.parse(row.fields),
+            batchId: row.batch_id ?? undefined,
+            createdTime: row.created_time
+        };
+    }
+
+    private static toBatch(row: BatchRow): IBatch {
+        return {
+            id: row.id,
+            label: row.label,
+            productId: row.product_id,
+            count: row.count,
+            format: row.format as CodeFormat,
+            mode: row.mode as CodeMode,
+            expirationTime: row.expiration_time,
+            activationDuration: row.activation_duration,
+            amount: row.amount,
+            features: JSON.parse(row.features),
+            createdTime: row.created_time,
+            revokedCount: row.revoked_count || undefined,
+            revokedTime: row.revoked_time ?? undefined
+        };
+    }
+
+    async getTransfer(codeHash: string): Promise<ITransferInfo | null> {
+        const row = await this.db
+            .prepare("SELECT transfer_count, last_transfer_time FROM codes WHERE code_hash = ?1")
+            .bind(codeHash)
+            .first<{ transfer_count: number; last_transfer_time: number }>();
+
+        return row ? { count: row.transfer_count, lastTime: row.last_transfer_time } : null;
+    }
+
+    async putTransfer(codeHash: string, transfer: ITransferInfo): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT INTO codes (code_hash, transfer_count, last_transfer_time) VALUES (?1, ?2, ?3)
+                 ON CONFLICT (code_hash) DO UPDATE SET
+                    transfer_count = excluded.transfer_count,
+                    last_transfer_time = excluded.last_transfer_time`
+            )
+            .bind(codeHash, transfer.count, transfer.lastTime)
+            .run();
+    }
+
+    async getActivation(uuid: string): Promise<ICodeInfo | null> {
+        const row = await this.db
+            .prepare("SELECT * FROM activations WHERE uuid = ?1 AND expiration_time > ?2")
+            .bind(uuid, serverT.now())
+            .first<ActivationRow>();
+
+        if (!row) return null;
+
+        return {
+            uuid: row.uuid,
+            binding: row.binding,
+            expirationTime: row.expiration_time,
+            amount: row.amount,
+            productId: row.product_id ?? undefined,
+            features: JSON.parse(row.features),
+            createdTime: row.created_time,
+            trial: row.trial === 1 || undefined
+        };
+    }
+
+    async putActivation(codeHash: string, codeInfo: ICodeInfo, _ttl: number): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT OR REPLACE INTO activations
+                    (uuid, code_hash, product_id, binding, amount, features, created_time, expiration_time, trial)
+                 VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`
+            )
+            .bind(
+                codeInfo.uuid,
+                codeHash,
+                codeInfo.productId ?? null,
+                codeInfo.binding,
+                codeInfo.amount,
+                JSON.stringify(codeInfo.features ?? []),
+                codeInfo.createdTime ?? serverT.now(),
+                codeInfo.expirationTime,
+                codeInfo.trial ? 1 : 0
+            )
+            .run();
+    }
+
+    async deleteActivation(codeHash: string, uuid: string): Promise<void> {
+        await this.db
+            .prepare("DELETE FROM activations WHERE uuid = ?1 AND code_hash = ?2")
+            .bind(uuid, codeHash)
+            .run();
+    }
+
+    async listActivations(codeHash: string): Promise<IActivation[]> {
+        return this.queryActivations({ codeHash });
+    }
+
+    async queryActivations(query: IActivationQuery): Promise<IActivation[]> {
+        const conditions = ["expiration_time > ?"];
+        const params: (string | number)[] = [serverT.now()];
+
+        if (query.codeHash) {
+            conditions.push("code_hash = ?");
+            params.push(query.codeHash);
+        }
+        if (query.productId) {
+            conditions.push("product_id = ?");
+            params.push(query.productId);
+        }
+        if (query.binding) {
+            conditions.push("binding = ?");
+            params.push(query.binding);
+        }
+        if (query.from !== undefined) {
+            conditions.push("created_time >= ?");
+            params.push(query.from);
+        }
+        if (query.to !== undefined) {
+            conditions.push("created_time <= ?");
+            params.push(query.to);
+        }
+
+        const limit = Math.min(query.limit ?? D1Store.MAX_QUERY_LIMIT, D1Store.MAX_QUERY_LIMIT);
+        const { results } = await this.db
+            .prepare(
+                `SELECT * FROM activations WHERE ${conditions.join(" AND ")}
+                 ORDER BY created_time DESC LIMIT ${limit}`
+            )
+            .bind(...params)
+            .all<ActivationRow>();
+
+        return results.map(row => ({
+            uuid: row.uuid,
+            binding: row.binding,
+            expirationTime: row.expiration_time,
+            expirationDate: serverT.toDate(row.expiration_time).toISOString(),
+            codeHash: row.code_hash,
+            productId: row.product_id ?? undefined,
+            createdTime: row.created_time
+        }));
+    }
+
+    async countActivationsByProduct(): Promise<Record<string, number>> {
+        const { results } = await this.db
+            .prepare(
+                `SELECT product_id, COUNT(*) AS count FROM activations
+                 WHERE expiration_time > ?1 AND product_id IS NOT NULL GROUP BY product_id`
+            )
+            .bind(serverT.now())
+            .all<{ product_id: string; count: number }>();
+
+        return Object.fromEntries(results.map(r => [r.product_id, r.count]));
+    }
+
+    async incrementStats(productId: string, day: string, field: StatsField, step: number): Promise<void> {
+        // field 为 StatsField 之一，与列名一致
+        await this.db
+            .prepare(
+                `INSERT INTO product_stats (product_id, day, ${field}) VALUES (?1, ?2, ?3)
+                 ON CONFLICT (product_id, day) DO UPDATE SET ${field} = ${field} + ?3`
+            )
+            .bind(productId, day, step)
+            .run();
+    }
+
+    async queryStats(query: IStatsQuery): Promise<IDailyStats[]> {
+        const conditions = ["day >= ?", "day <= ?"];
+        const params: string[] = [query.from, query.to];
+
+        if (query.productId) {
+            conditions.push("product_id = ?");
+            params.push(query.productId);
+        }
+
+        const { results } = await this.db
+            .prepare(`SELECT * FROM product_stats WHERE ${conditions.join(" AND ")} ORDER BY day`)
+            .bind(...params)
+            .all<StatsRow>();
+
+        return results.map(row => ({
+            productId: row.product_id,
+            day: row.day,
+            issued: row.issued,
+            redeemed: row.redeemed,
+            reauths: row.reauths,
+            failures: row.failures
+        }));
+    }
+
+    async claimTrial(productId: string, bindingHash: string, uuid: string): Promise<boolean> {
+        const result = await this.db
+            .prepare(
+                `INSERT INTO trials (product_id, binding, uuid, created_time) VALUES (?1, ?2, ?3, ?4)
+                 ON CONFLICT (product_id, binding) DO NOTHING`
+            )
+            .bind(productId, bindingHash, uuid, serverT.now())
+            .run();
+
+        return result.meta.changes > 0;
+    }
+
+    async appendAudit(events: IAuditEvent[]): Promise<void> {
+        if (events.length === 0) return;
+
+        const insert = this.db.prepare(
+            `INSERT INTO audit_log
+                (id, time, action, success, actor, ip, product_id, code_hash, activation_uuid, detail)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`
+        );
+
+        await this.db.batch(events.map(e => insert.bind(
+            e.id, e.time, e.action, e.success ? 1 : 0, e.actor, e.ip,
+            e.productId ?? null, e.codeHash ?? null, e.activationUuid ?? null, e.detail ?? null
+        )));
+    }
+
+    async queryAudit(query: IAuditQuery): Promise<IAuditEvent[]> {
+        const conditions = ["1 = 1"];
+        const params: (string | number)[] = [];
+
+        if (query.action) {
+            conditions.push("action = ?");
+            params.push(query.action);
+        }
+        if (query.productId) {
+            conditions.push("product_id = ?");
+            params.push(query.productId);
+        }
+        if (query.codeHash) {
+            conditions.push("code_hash = ?");
+            params.push(query.codeHash);
+        }
+        if (query.activationUuid) {
+            conditions.push("activation_uuid = ?");
+            params.push(query.activationUuid);
+        }
+        if (query.from !== undefined) {
+            conditions.push("time >= ?");
+            params.push(query.from);
+        }
+        if (query.to !== undefined) {
+            conditions.push("time <= ?");
+            params.push(query.to);
+        }
+
+        const limit = Math.min(query.limit ?? D1Store.MAX_QUERY_LIMIT, D1Store.MAX_QUERY_LIMIT);
+        const { results } = await this.db
+            .prepare(
+                `SELECT * FROM audit_log WHERE ${conditions.join(" AND ")}
+                 ORDER BY time DESC, rowid DESC LIMIT ${limit}`
+            )
+            .bind(...params)
+            .all<AuditRow>();
+
+        return results.map(row => ({
+            id: row.id,
+            time: row.time,
+            action: row.action as AuditAction,
+            success: row.success === 1,
+            actor: row.actor,
+            ip: row.ip,
+            productId: row.product_id ?? undefined,
+            codeHash: row.code_hash ?? undefined,
+            activationUuid: row.activation_uuid ?? undefined,
+            detail: row.detail ?? undefined
+        }));
+    }
+}
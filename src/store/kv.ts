@@ -0,0 +1,455 @@
+﻿// store/kv.ts
+import type {
+    IActivation, IActivationQuery, IAdmin, IAdminTotp, IAuditEvent, IAuditQuery, IBatch, ICodeInfo, ICodeMeta, ICodeMetaQuery,
+    IDailyStats, IIssuedCode, IProduct, IShortCode, IStatsQuery, IStore, ITransferInfo, StatsField
+} from "./store";
+import {Lock, LockNamespace} from "../tool/lock";
+import {serverT} from "../tool/tool";
+import {CONFIG} from "../config";
+
+/**
+ * KV 存储实现
+ * 使用次数与使用统计以 Coordinator 计数器为准，KV 中的 C:、ST: 键仅作镜像供读取
+ */
+export class KvStore implements IStore {
+    private static readonly PRODUCT_KEY = "product";
+    private static readonly CODE_PREFIX = "C:";
+    private static readonly CODE_INFO_PREFIX = "CI:";
+    private static readonly CODE_ACTIVATION_PREFIX = "CA:";
+    private static readonly CODE_TRANSFER_PREFIX = "CT:";
+    private static readonly ISSUED_CODE_PREFIX = "K:";
+    private static readonly SHORT_CODE_PREFIX = "SC:";
+    private static readonly MIN_KV_TTL = 60;
+    private static readonly AUDIT_PREFIX = "AL:";
+    private static readonly AUDIT_TIME_MAX = 1e14;
+    private static readonly DEFAULT_AUDIT_LIMIT = 1000;
+    private static readonly STATS_PREFIX = "ST:";
+    private static readonly TRIAL_PREFIX = "TR:";
+    private static readonly BATCH_PREFIX = "B:";
+    private static readonly BATCH_CODES_PREFIX = "BC:";
+    private static readonly CODE_META_PREFIX = "M:";
+    private static readonly ADMIN_PREFIX = "AK:";
+    private static readonly ADMIN_TOTP_PREFIX = "AT:";
+
+    readonly batchMaxCount = CONFIG.BATCH_MAX_COUNT_KV;
+
+    constructor(readonly kv: KVNamespace, readonly lock: LockNamespace) {
+    }
+
+    async getProducts(): Promise<IProduct[]> {
+        const productJson = await this.kv.get(KvStore.PRODUCT_KEY);
+        if (!productJson) return [];
+
+        try {
+            return JSON.parse(productJson) as IProduct[];
+        } catch {
+            return [];
+        }
+    }
+
+    async modifyProducts<T>(mutate: (products: IProduct[]) => [boolean, T]): Promise<[boolean, T]> {
+        const token = await Lock.waitAndAcquire(this.lock, KvStore.PRODUCT_KEY);
+        try {
+            const products = await this.getProducts();
+            const [changed, result] = mutate(products);
+
+            if (changed) {
+                await this.kv.put(KvStore.PRODUCT_KEY, JSON.stringify(products));
+            }
+
+            return [changed, result];
+        } finally {
+            await Lock.release(this.lock, KvStore.PRODUCT_KEY, token);
+        }
+    }
+
+    async getUsed(codeHash: string): Promise<number | null> {
+        const usedStr = await this.kv.get(`${KvStore.CODE_PREFIX}${codeHash}`);
+        return usedStr ? parseInt(usedStr, 10) : null;
+    }
+
+    async incrementUsed(codeHash: string, limit: number): Promise<number> {
+        const key = `${KvStore.CODE_PREFIX}${codeHash}`;
+        const newUsed = await Lock.increment(this.lock, key, limit, (await this.getUsed(codeHash)) ?? 0);
+
+        if (newUsed !== -1) {
+            await this.kv.put(key, newUsed.toString());
+        }
+        return newUsed;
+    }
+
+    async decrementUsed(codeHash: string): Promise<number> {
+        const key = `${KvStore.CODE_PREFIX}${codeHash}`;
+        const newUsed = await Lock.decrement(this.lock, key, (await this.getUsed(codeHash)) ?? 0);
+
+        await this.kv.put(key, newUsed.toString());
+        return newUsed;
+    }
+
+    /**
+     * 分块并发执行写入，避免批量操作一次发起过多请求
+     */
+    private static async inChunks<T>(items: T[], write: (item: T) => Promise<void>): Promise<void> {
+        for (let i = 0; i < items.length; i += CONFIG.BATCH_WRITE_CONCURRENCY) {
+            await Promise.all(items.slice(i, i + CONFIG.BATCH_WRITE_CONCURRENCY).map(write));
+        }
+    }
+
+    async putIssuedCodes(issued: IIssuedCode[]): Promise<void> {
+        await KvStore.inChunks(issued, async item => {
+            const ttl = Math.max(item.expirationTime - serverT.now(), KvStore.MIN_KV_TTL);
+            await this.kv.put(`${KvStore.ISSUED_CODE_PREFIX}${item.keyId}:${item.codeHash}`, "", {
+                expirationTtl: ttl,
+                metadata: item
+            });
+        });
+    }
+
+    async countIssuedCodesByKey(): Promise<Record<string, number>> {
+        const counts: Record<string, number> = {};
+        const now = serverT.now();
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<IIssuedCode>({ prefix: KvStore.ISSUED_CODE_PREFIX, cursor });
+            for (const key of page.keys) {
+                if (!key.metadata || key.metadata.expirationTime <= now) continue;
+                counts[key.metadata.keyId] = (counts[key.metadata.keyId] ?? 0) + 1;
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return counts;
+    }
+
+    async putShortCodes(shortCodes: IShortCode[]): Promise<void> {
+        await KvStore.inChunks(shortCodes, async shortCode => {
+            const ttl = Math.max(shortCode.expirationTime - serverT.now(), KvStore.MIN_KV_TTL);
+            await this.kv.put(`${KvStore.SHORT_CODE_PREFIX}${shortCode.codeHash}`, JSON.stringify(shortCode), {
+                expirationTtl: ttl
+            });
+        });
+    }
+
+    async getShortCode(codeHash: string): Promise<IShortCode | null> {
+        const shortCodeStr = await this.kv.get(`${KvStore.SHORT_CODE_PREFIX}${codeHash}`);
+        return shortCodeStr ? JSON.parse(shortCodeStr) as IShortCode : null;
+    }
+
+    /**
+     * 批次信息同时写入元数据供列表读取，激活码原文单独保存在 BC: 键中
+     */
+    async putBatch(batch: IBatch, codes: string[]): Promise<void> {
+        await this.kv.put(`${KvStore.BATCH_CODES_PREFIX}${batch.id}`, JSON.stringify(codes));
+        await this.kv.put(`${KvStore.BATCH_PREFIX}${batch.id}`, JSON.stringify(batch), { metadata: batch });
+    }
+
+    async getBatch(id: string): Promise<IBatch | null> {
+        const batchStr = await this.kv.get(`${KvStore.BATCH_PREFIX}${id}`);
+        return batchStr ? JSON.parse(batchStr) as IBatch : null;
+    }
+
+    async listBatches(productId?: string): Promise<IBatch[]> {
+        const batches: IBatch[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<IBatch>({ prefix: KvStore.BATCH_PREFIX, cursor });
+            for (const key of page.keys) {
+                if (!key.metadata || (productId && key.metadata.productId !== productId)) continue;
+                batches.push(key.metadata);
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return batches.sort((a, b) => b.createdTime - a.createdTime);
+    }
+
+    async getBatchCodes(id: string): Promise<string[]> {
+        const codesStr = await this.kv.get(`${KvStore.BATCH_CODES_PREFIX}${id}`);
+        return codesStr ? JSON.parse(codesStr) as string[] : [];
+    }
+
+    async setBatchRevoked(id: string, revokedCount: number, revokedTime?: number): Promise<boolean> {
+        const batch = await this.getBatch(id);
+        if (!batch) return false;
+
+        batch.revokedCount = revokedCount;
+        batch.revokedTime = revokedTime;
+        await this.kv.put(`${KvStore.BATCH_PREFIX}${id}`, JSON.stringify(batch), { metadata: batch });
+        return true;
+    }
+
+    async putCodeMeta(metas: ICodeMeta[]): Promise<void> {
+        await KvStore.inChunks(metas, async meta => {
+            await this.kv.put(`${KvStore.CODE_META_PREFIX}${meta.codeHash}`, "", { metadata: meta });
+        });
+    }
+
+    async getCodeMeta(codeHash: string): Promise<ICodeMeta | null> {
+        const { metadata } = await this.kv.getWithMetadata<ICodeMeta>(`${KvStore.CODE_META_PREFIX}${codeHash}`);
+        return metadata ?? null;
+    }
+
+    /**
+     * KV 无法建立二级索引，需全量扫描附加信息键
+     */
+    async searchCodeMeta(query: ICodeMetaQuery): Promise<ICodeMeta[]> {
+        const q = query.q.toLowerCase();
+        const matches: ICodeMeta[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<ICodeMeta>({ prefix: KvStore.CODE_META_PREFIX, cursor });
+            for (const key of page.keys) {
+                const meta = key.metadata;
+                if (!meta || (query.productId && meta.productId !== query.productId)) continue;
+
+                const hit = Object.entries(meta.fields).some(([field, value]) =>
+                    (!query.field || field === query.field) && value.toLowerCase().includes(q)
+                );
+                if (hit) matches.push(meta);
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        matches.sort((a, b) => b.createdTime - a.createdTime);
+        return query.limit ? matches.slice(0, query.limit) : matches;
+    }
+
+    /**
+     * 以 Key 哈希为键，认证时直接读取；管理员数量少，列表时扫描元数据
+     */
+    async putAdmin(admin: IAdmin): Promise<void> {
+        await this.kv.put(`${KvStore.ADMIN_PREFIX}${admin.keyHash}`, JSON.stringify(admin), { metadata: admin });
+    }
+
+    async getAdminByKeyHash(keyHash: string): Promise<IAdmin | null> {
+        const adminStr = await this.kv.get(`${KvStore.ADMIN_PREFIX}${keyHash}`);
+        return adminStr ? JSON.parse(adminStr) as IAdmin : null;
+    }
+
+    async listAdmins(): Promise<IAdmin[]> {
+        const admins: IAdmin[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<IAdmin>({ prefix: KvStore.ADMIN_PREFIX, cursor });
+            for (const key of page.keys) {
+                if (key.metadata) admins.push(key.metadata);
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return admins.sort((a, b) => a.createdTime - b.createdTime);
+    }
+
+    async putAdminTotp(totp: IAdminTotp): Promise<void> {
+        await this.kv.put(`${KvStore.ADMIN_TOTP_PREFIX}${totp.adminId}`, JSON.stringify(totp));
+    }
+
+    async getAdminTotp(adminId: string): Promise<IAdminTotp | null> {
+        const totpStr = await this.kv.get(`${KvStore.ADMIN_TOTP_PREFIX}${adminId}`);
+        return totpStr ? JSON.parse(totpStr) as IAdminTotp : null;
+    }
+
+    /**
+     * 时间步以 Coordinator 为准（每次登记一个实例），KV 中的 lastStep 仅作镜像
+     */
+    async useAdminTotpStep(totp: IAdminTotp, step: number): Promise<boolean> {
+        const name = `${KvStore.ADMIN_TOTP_PREFIX}${totp.adminId}:${totp.createdTime}`;
+        if (!await Lock.advance(this.lock, name, step)) return false;
+
+        const current = await this.getAdminTotp(totp.adminId);
+        if (current?.secret !== totp.secret) return false;
+
+        await this.putAdminTotp({ ...current, confirmed: true, lastStep: Math.max(current.lastStep, step) });
+        return true;
+    }
+
+    async deleteAdminTotp(adminId: string): Promise<void> {
+        await this.kv.delete(`${KvStore.ADMIN_TOTP_PREFIX}${adminId}`);
+    }
+
+    async getTransfer(codeHash: string): Promise<ITransferInfo | null> {
+        const transferStr = await this.kv.get(`${KvStore.CODE_TRANSFER_PREFIX}${codeHash}`);
+        return transferStr ? JSON.parse(transferStr) as ITransferInfo : null;
+    }
+
+    async putTransfer(codeHash: string, transfer: ITransferInfo): Promise<void> {
+        await this.kv.put(`${KvStore.CODE_TRANSFER_PREFIX}${codeHash}`, JSON.stringify(transfer));
+    }
+
+    async getActivation(uuid: string): Promise<ICodeInfo | null> {
+        const ciStr = await this.kv.get(`${KvStore.CODE_INFO_PREFIX}${uuid}`);
+        return ciStr ? JSON.parse(ciStr) as ICodeInfo : null;
+    }
+
+    async putActivation(codeHash: string, codeInfo: ICodeInfo, ttl: number): Promise<void> {
+        const activation: IActivation = {
+            uuid: codeInfo.uuid,
+            binding: codeInfo.binding,
+            expirationTime: codeInfo.expirationTime,
+            codeHash,
+            productId: codeInfo.productId,
+            createdTime: codeInfo.createdTime
+        };
+
+        await Promise.all([
+            this.kv.put(`${KvStore.CODE_INFO_PREFIX}${codeInfo.uuid}`,
+                JSON.stringify(codeInfo), { expirationTtl: ttl }
+            ),
+            // 激活码哈希 -> 激活记录 的索引
+            this.kv.put(`${KvStore.CODE_ACTIVATION_PREFIX}${codeHash}:${codeInfo.uuid}`, "", {
+                expirationTtl: ttl,
+                metadata: activation
+            })
+        ]);
+    }
+
+    async deleteActivation(codeHash: string, uuid: string): Promise<void> {
+        await Promise.all([
+            this.kv.delete(`${KvStore.CODE_INFO_PREFIX}${uuid}`),
+            this.kv.delete(`${KvStore.CODE_ACTIVATION_PREFIX}${codeHash}:${uuid}`)
+        ]);
+    }
+
+    async listActivations(codeHash: string): Promise<IActivation[]> {
+        return this.scanActivations(`${KvStore.CODE_ACTIVATION_PREFIX}${codeHash}:`);
+    }
+
+    /**
+     * KV 无法建立二级索引，按激活码以外的条件查询时需全量扫描索引键
+     */
+    async queryActivations(query: IActivationQuery): Promise<IActivation[]> {
+        const prefix = query.codeHash
+            ? `${KvStore.CODE_ACTIVATION_PREFIX}${query.codeHash}:`
+            : KvStore.CODE_ACTIVATION_PREFIX;
+
+        const activations = (await this.scanActivations(prefix)).filter(a =>
+            (!query.productId || a.productId === query.productId) &&
+            (!query.binding || a.binding === query.binding) &&
+            (query.from === undefined || (a.createdTime ?? 0) >= query.from) &&
+            (query.to === undefined || (a.createdTime ?? 0) <= query.to)
+        );
+
+        return query.limit ? activations.slice(0, query.limit) : activations;
+    }
+
+    async countActivationsByProduct(): Promise<Record<string, number>> {
+        const counts: Record<string, number> = {};
+        for (const a of await this.scanActivations(KvStore.CODE_ACTIVATION_PREFIX)) {
+            if (!a.productId) continue;
+            counts[a.productId] = (counts[a.productId] ?? 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * 每个产品、日期与统计项对应一个计数器，键名 ST:<日期>:<产品ID>:<统计项>
+     */
+    async incrementStats(productId: string, day: string, field: StatsField, step: number): Promise<void> {
+        const key = `${KvStore.STATS_PREFIX}${day}:${productId}:${field}`;
+        const seed = parseInt((await this.kv.get(key)) ?? "0", 10);
+        const count = await Lock.increment(this.lock, key, Number.MAX_SAFE_INTEGER, seed, step);
+
+        await this.kv.put(key, count.toString(), { metadata: { count } });
+    }
+
+    /**
+     * KV 无法按范围列出，需全量扫描统计键
+     */
+    async queryStats(query: IStatsQuery): Promise<IDailyStats[]> {
+        const rows = new Map<string, IDailyStats>();
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<{ count: number }>({ prefix: KvStore.STATS_PREFIX, cursor });
+            for (const key of page.keys) {
+                const [, day, productId, field] = key.name.split(":");
+                if (!key.metadata || day < query.from || day > query.to) continue;
+                if (query.productId && productId !== query.productId) continue;
+
+                const rowKey = `${day}:${productId}`;
+                let row = rows.get(rowKey);
+                if (!row) {
+                    row = { productId, day, issued: 0, redeemed: 0, reauths: 0, failures: 0 };
+                    rows.set(rowKey, row);
+                }
+                row[field as StatsField] = key.metadata.count;
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return [...rows.values()];
+    }
+
+    /**
+     * 试用记录以 Coordinator 为准（永久保存），先写者胜出
+     */
+    async claimTrial(productId: string, bindingHash: string, uuid: string): Promise<boolean> {
+        const claimed = await Lock.claim(this.lock, `${KvStore.TRIAL_PREFIX}${productId}:${bindingHash}`, uuid);
+        return claimed === uuid;
+    }
+
+    /**
+     * 键名以倒序的毫秒时间开头，列出时最新事件在前
+     */
+    async appendAudit(events: IAuditEvent[]): Promise<void> {
+        const invertedTime = String(KvStore.AUDIT_TIME_MAX - Date.now()).padStart(14, "0");
+        await Promise.all(events.map(event =>
+            this.kv.put(`${KvStore.AUDIT_PREFIX}${invertedTime}:${event.id}`, "", { metadata: event })
+        ));
+    }
+
+    /**
+     * KV 无法建立二级索引，需按时间倒序扫描，取满 limit 条即停止
+     */
+    async queryAudit(query: IAuditQuery): Promise<IAuditEvent[]> {
+        const limit = query.limit ?? KvStore.DEFAULT_AUDIT_LIMIT;
+        const events: IAuditEvent[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<IAuditEvent>({ prefix: KvStore.AUDIT_PREFIX, cursor });
+            for (const key of page.keys) {
+                const event = key.metadata;
+                if (!event) continue;
+                if (query.to !== undefined && event.time > query.to) continue;
+                if (query.from !== undefined && event.time < query.from) return events;
+
+                if (
+                    (!query.action || event.action === query.action) &&
+                    (!query.productId || event.productId === query.productId) &&
+                    (!query.codeHash || event.codeHash === query.codeHash) &&
+                    (!query.activationUuid || event.activationUuid === query.activationUuid)
+                ) {
+                    events.push(event);
+                    if (events.length >= limit) return events;
+                }
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return events;
+    }
+
+    private async scanActivations(prefix: string): Promise<IActivation[]> {
+        const activations: IActivation[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.kv.list<IActivation>({ prefix, cursor });
+            for (const key of page.keys) {
+                if (!key.metadata) continue;
+                activations.push({
+                    ...key.metadata,
+                    expirationDate: serverT.toDate(key.metadata.expirationTime).toISOString()
+                });
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return activations;
+    }
+}
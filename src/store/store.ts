@@ -0,0 +1,388 @@
+﻿// store/store.ts
+import type {LockNamespace} from "../tool/lock";
+import {KvStore} from "./kv";
+import {D1Store} from "./d1";
+
+/**
+ * 产品状态
+ * active: 正常；disabled: 停用（拒绝激活与生成）；archived: 归档（软删除，同停用且默认不在列表中显示）
+ */
+export type ProductStatus = "active" | "disabled" | "archived";
+
+/**
+ * 激活码类型
+ * standard: 激活后占用一次使用次数；floating: 浮动授权，amount 为并发席位数；
+ * renewal: 续期码，为已有激活记录延长 activationDuration
+ */
+export type CodeMode = "standard" | "floating" | "renewal";
+
+/**
+ * 激活码格式
+ * long: 条款加密在码内的 Base64 长码；short: 条款保存在服务器的分组 Base32 短码
+ */
+export type CodeFormat = "long" | "short";
+
+/**
+ * 授权模板：产品预设的默认激活码条款
+ */
+export interface ILicenseTemplate {
+    name: string;
+    expirationPeriod: number;
+    activationDuration: number;
+    amount: number;
+    features?: string[];
+    /** 浮动授权：amount 为并发席位数 */
+    floating?: boolean;
+    /** 续期码：为已有激活记录延长 activationDuration，不可带功能 */
+    renewal?: boolean;
+}
+
+/**
+ * 试用策略：无需激活码，每个设备绑定可试用一次
+ */
+export interface ITrialPolicy {
+    /** 试用时长（秒） */
+    duration: number;
+    features: string[];
+}
+
+export interface IProduct {
+    name: string;
+    id: string;
+    status?: ProductStatus;
+    templates?: ILicenseTemplate[];
+    features?: string[];
+    trial?: ITrialPolicy;
+    /** 生成激活码的默认格式，未设置时为 long */
+    codeFormat?: CodeFormat;
+}
+
+/**
+ * 激活记录
+ */
+export interface ICodeInfo {
+    uuid: string;
+    binding: string;
+    expirationTime: number;
+    amount: number;
+    productId?: string;
+    features?: string[];
+    createdTime?: number;
+    /** 试用激活，不可续期或延长 */
+    trial?: boolean;
+}
+
+export interface ITransferInfo {
+    count: number;
+    lastTime: number;
+}
+
+/**
+ * 已生成激活码的登记信息（用于按加密密钥统计）
+ */
+export interface IIssuedCode {
+    codeHash: string;
+    keyId: string;
+    productId: string;
+    expirationTime: number;
+    createdTime: number;
+}
+
+/**
+ * 短激活码在服务器保存的条款
+ */
+export interface IShortCode {
+    codeHash: string;
+    productId: string;
+    expirationTime: number;
+    activationDuration: number;
+    amount: number;
+    features: string[];
+    mode: CodeMode;
+    createdTime: number;
+}
+
+/**
+ * 激活码批次：一次批量生成的激活码，原文保存在服务器供重新下载
+ */
+export interface IBatch {
+    id: string;
+    /** 渠道或用途说明，如 "经销商 X 三月" */
+    label: string;
+    productId: string;
+    count: number;
+    format: CodeFormat;
+    mode: CodeMode;
+    expirationTime: number;
+    activationDuration: number;
+    amount: number;
+    features: string[];
+    createdTime: number;
+    /** 已吊销的激活码数量（按批次内顺序），未完成时可继续吊销 */
+    revokedCount?: number;
+    /** 整批吊销完成的时间 */
+    revokedTime?: number;
+}
+
+/**
+ * 激活码附加信息（客户邮箱、订单号、备注等自由键值），与激活码哈希一起保存
+ */
+export interface ICodeMeta {
+    codeHash: string;
+    productId: string;
+    fields: Record<string, string>;
+    /** 批量生成时所属的批次 */
+    batchId?: string;
+    createdTime: number;
+}
+
+/**
+ * 激活码附加信息搜索条件
+ * q 按子串匹配（不区分大小写）任一字段值；指定 field 时只匹配该字段
+ */
+export interface ICodeMetaQuery {
+    q: string;
+    field?: string;
+    productId?: string;
+    limit?: number;
+}
+
+/**
+ * 管理员权限范围
+ * read: 查看；generate: 生成与导出激活码；manage: 修改产品、吊销与延期等；admin: 管理管理员 API Key
+ */
+export type AdminScope = "read" | "generate" | "manage" | "admin";
+
+/**
+ * 管理员：每人（或每个脚本）单独签发 API Key，服务器只保存其哈希
+ */
+export interface IAdmin {
+    id: string;
+    /** 唯一名称，写入审计日志的 actor */
+    name: string;
+    keyHash: string;
+    scopes: AdminScope[];
+    /** 限定可操作的产品 ID，未设置时不限 */
+    products?: string[];
+    createdTime: number;
+    createdBy: string;
+    revokedTime?: number;
+}
+
+/**
+ * 管理员的 TOTP（RFC 6238）两步验证登记，按管理员 ID 保存（内置管理员为 root）
+ */
+export interface IAdminTotp {
+    adminId: string;
+    /** Base32 编码的共享密钥 */
+    secret: string;
+    /** 首次以该密钥登录成功后确认；未确认的登记可被重新生成 */
+    confirmed: boolean;
+    /** 最近一次使用的时间步，同一时间步的验证码不可重复使用 */
+    lastStep: number;
+    createdTime: number;
+}
+
+/**
+ * 激活记录摘要（用于列表与查询）
+ */
+export interface IActivation {
+    uuid: string;
+    binding: string;
+    expirationTime: number;
+    expirationDate?: string;
+    codeHash?: string;
+    productId?: string;
+    createdTime?: number;
+}
+
+/**
+ * 激活记录查询条件（时间均为 serverT 相对秒）
+ */
+export interface IActivationQuery {
+    codeHash?: string;
+    productId?: string;
+    binding?: string;
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
+/**
+ * 审计事件类型
+ */
+export type AuditAction =
+    | "code.generate"
+    | "code.activate"
+    | "code.reauth"
+    | "code.deactivate"
+    | "code.renew"
+    | "code.extend"
+    | "code.trial"
+    | "code.revoke"
+    | "code.unrevoke"
+    | "lease.checkout"
+    | "lease.release"
+    | "batch.generate"
+    | "batch.revoke"
+    | "admin.auth"
+    | "admin.create"
+    | "admin.revoke"
+    | "admin.login"
+    | "admin.totp.enroll"
+    | "admin.totp.reset";
+
+/**
+ * 审计事件（只追加，不修改、不删除）
+ */
+export interface IAuditEvent {
+    id: string;
+    /** serverT 相对秒 */
+    time: number;
+    action: AuditAction;
+    success: boolean;
+    /** 操作者：管理员名称或 client:<会话 client_uuid> */
+    actor: string;
+    ip: string;
+    productId?: string;
+    codeHash?: string;
+    activationUuid?: string;
+    detail?: string;
+}
+
+/**
+ * 审计事件查询条件（时间均为 serverT 相对秒），结果按时间倒序
+ */
+export interface IAuditQuery {
+    action?: AuditAction;
+    productId?: string;
+    codeHash?: string;
+    activationUuid?: string;
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
+/**
+ * 按日统计的计数项
+ * issued: 生成激活码；redeemed: 首次激活成功；reauths: 重新认证成功；failures: 激活或重新认证失败
+ */
+export type StatsField = "issued" | "redeemed" | "reauths" | "failures";
+
+/**
+ * 产品单日使用统计（day 为 UTC 日期 YYYY-MM-DD）
+ */
+export interface IDailyStats extends Record<StatsField, number> {
+    productId: string;
+    day: string;
+}
+
+/**
+ * 使用统计查询条件（日期均为 YYYY-MM-DD，含首尾）
+ */
+export interface IStatsQuery {
+    productId?: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * 产品、激活码与激活记录的存储接口
+ */
+export interface IStore {
+    /** 辅助 KV（会话、吊销列表等始终存于 KV） */
+    readonly kv: KVNamespace;
+    /** 分布式锁 */
+    readonly lock: LockNamespace;
+    /** 单个批次最多生成的激活码数量（受单次调用的写入次数限制） */
+    readonly batchMaxCount: number;
+
+    /** 获取所有产品 */
+    getProducts(): Promise<IProduct[]>;
+    /** 加锁修改产品列表，mutate 返回 [是否修改, 结果]，仅在修改时写回 */
+    modifyProducts<T>(mutate: (products: IProduct[]) => [boolean, T]): Promise<[boolean, T]>;
+
+    /** 获取激活码已使用次数，从未使用返回 null */
+    getUsed(codeHash: string): Promise<number | null>;
+    /** 原子地占用一次使用次数，已达上限返回 -1 */
+    incrementUsed(codeHash: string, limit: number): Promise<number>;
+    /** 原子地归还一次使用次数 */
+    decrementUsed(codeHash: string): Promise<number>;
+
+    /** 登记新生成的激活码，过期后自动失效 */
+    putIssuedCodes(issued: IIssuedCode[]): Promise<void>;
+    /** 按加密密钥 ID 统计未过期的已登记激活码数量 */
+    countIssuedCodesByKey(): Promise<Record<string, number>>;
+
+    /** 保存短激活码的条款，过期后自动失效 */
+    putShortCodes(shortCodes: IShortCode[]): Promise<void>;
+    /** 获取未过期的短激活码条款 */
+    getShortCode(codeHash: string): Promise<IShortCode | null>;
+
+    /** 保存批次及其激活码原文 */
+    putBatch(batch: IBatch, codes: string[]): Promise<void>;
+    getBatch(id: string): Promise<IBatch | null>;
+    /** 列出批次（按创建时间倒序） */
+    listBatches(productId?: string): Promise<IBatch[]>;
+    getBatchCodes(id: string): Promise<string[]>;
+    /** 记录批次吊销进度，全部吊销后同时记录完成时间，批次不存在返回 false */
+    setBatchRevoked(id: string, revokedCount: number, revokedTime?: number): Promise<boolean>;
+
+    /** 保存激活码附加信息 */
+    putCodeMeta(metas: ICodeMeta[]): Promise<void>;
+    getCodeMeta(codeHash: string): Promise<ICodeMeta | null>;
+    /** 按附加信息搜索激活码（按生成时间倒序） */
+    searchCodeMeta(query: ICodeMetaQuery): Promise<ICodeMeta[]>;
+
+    /** 新增或更新管理员 */
+    putAdmin(admin: IAdmin): Promise<void>;
+    getAdminByKeyHash(keyHash: string): Promise<IAdmin | null>;
+    /** 列出所有管理员（含已吊销，按创建时间排序） */
+    listAdmins(): Promise<IAdmin[]>;
+
+    putAdminTotp(totp: IAdminTotp): Promise<void>;
+    getAdminTotp(adminId: string): Promise<IAdminTotp | null>;
+    /**
+     * 原子地记录已使用的时间步并确认登记
+     * @returns 时间步大于已记录的时间步且登记未被替换时返回 true，否则返回 false（验证码已被使用）
+     */
+    useAdminTotpStep(totp: IAdminTotp, step: number): Promise<boolean>;
+    deleteAdminTotp(adminId: string): Promise<void>;
+
+    getTransfer(codeHash: string): Promise<ITransferInfo | null>;
+    putTransfer(codeHash: string, transfer: ITransferInfo): Promise<void>;
+
+    /** 获取未过期的激活记录 */
+    getActivation(uuid: string): Promise<ICodeInfo | null>;
+    /** 保存激活记录，ttl 秒后过期 */
+    putActivation(codeHash: string, codeInfo: ICodeInfo, ttl: number): Promise<void>;
+    deleteActivation(codeHash: string, uuid: string): Promise<void>;
+    /** 获取激活码下所有未过期的激活记录 */
+    listActivations(codeHash: string): Promise<IActivation[]>;
+    /** 按条件查询未过期的激活记录 */
+    queryActivations(query: IActivationQuery): Promise<IActivation[]>;
+    /** 按产品 ID 统计未过期的激活记录数量 */
+    countActivationsByProduct(): Promise<Record<string, number>>;
+
+    /** 原子地将产品当日的某项统计加 step */
+    incrementStats(productId: string, day: string, field: StatsField, step: number): Promise<void>;
+    /** 按条件查询按日统计，未出现的日期不返回 */
+    queryStats(query: IStatsQuery): Promise<IDailyStats[]>;
+
+    /** 登记设备绑定的试用，该绑定已试用过该产品时返回 false */
+    claimTrial(productId: string, bindingHash: string, uuid: string): Promise<boolean>;
+
+    /** 追加审计事件 */
+    appendAudit(events: IAuditEvent[]): Promise<void>;
+    /** 按条件查询审计事件 */
+    queryAudit(query: IAuditQuery): Promise<IAuditEvent[]>;
+}
+
+/**
+ * 根据绑定选择存储实现：配置了 AUTH_DB (D1) 时使用 D1，否则使用 KV
+ */
+export function createStore(env: CloudflareBindings): IStore {
+    return env.AUTH_DB
+        ? new D1Store(env.AUTH_DB, env.AUTH_KV, env.COORDINATOR)
+        : new KvStore(env.AUTH_KV, env.COORDINATOR);
+}
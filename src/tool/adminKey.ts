@@ -0,0 +1,165 @@
+﻿// tool/adminKey.ts
+import type {AdminScope, IAdmin, IStore} from "../store/store";
+import {generateUUID, randomString, serverT} from "./tool";
+import {Hash} from "./hash";
+import {Lock} from "./lock";
+
+export const ADMIN_SCOPES: readonly AdminScope[] = ["read", "generate", "manage", "admin"];
+
+/**
+ * 预设角色（创建 Key 时可用角色代替逐个列出权限范围）
+ */
+export const ADMIN_ROLES: Readonly<Record<string, readonly AdminScope[]>> = {
+    viewer: ["read"],
+    generator: ["read", "generate"],
+    operator: ["read", "generate", "manage"],
+    owner: ADMIN_SCOPES
+};
+
+/** 已认证的管理员身份（不含 Key 哈希） */
+export type AdminPrincipal = Omit<IAdmin, "keyHash">;
+
+/**
+ * 管理员 API Key
+ * Key 原文只在签发时返回一次，服务器保存 SHA-256 哈希；环境变量 SUPER_ADMIN_KEY 作为内置管理员保留
+ */
+export class AdminKey {
+    /** SUPER_ADMIN_KEY 对应的内置管理员，拥有全部权限且不限产品 */
+    static readonly ROOT: AdminPrincipal = {
+        id: "root",
+        name: "admin",
+        scopes: [...ADMIN_SCOPES],
+        createdTime: 0,
+        createdBy: ""
+    };
+    private static readonly KEY_PREFIX = "cak_";
+    private static readonly KEY_LENGTH = 40;
+    private static readonly NAME_PATTERN = /^[\w.@-]{1,32}$/;
+    /** 签发 Key 时持有的锁，保证名称检查与写入之间不会插入同名管理员 */
+    private static readonly CREATE_LOCK = "admin:create";
+
+    /**
+     * 校验管理员名称（内置管理员的名称保留）
+     */
+    static isValidName(name: unknown): name is string {
+        return typeof name === "string" && this.NAME_PATTERN.test(name) && name !== this.ROOT.name;
+    }
+
+    /**
+     * 签发新的管理员 API Key，名称已被使用时失败
+     * @returns [是否成功, 管理员, Key 原文]
+     */
+    static async create(
+        store: IStore,
+        name: string,
+        scopes: AdminScope[],
+        products: string[] | undefined,
+        createdBy: string
+    ): Promise<[boolean, AdminPrincipal | null, string]> {
+        const token = await Lock.waitAndAcquire(store.lock, this.CREATE_LOCK);
+
+        try {
+            const admins = await store.listAdmins();
+            if (admins.some(a => a.name === name)) return [false, null, ""];
+
+            const key = `${this.KEY_PREFIX}${randomString(this.KEY_LENGTH)}`;
+            const admin: IAdmin = {
+                id: generateUUID(),
+                name,
+                keyHash: await Hash.sha256(key),
+                scopes: ADMIN_SCOPES.filter(s => scopes.includes(s)),
+                products,
+                createdTime: serverT.now(),
+                createdBy
+            };
+            await store.putAdmin(admin);
+
+            return [true, this.principal(admin), key];
+        } finally {
+            await Lock.release(store.lock, this.CREATE_LOCK, token);
+        }
+    }
+
+    /**
+     * 以 API Key 认证管理员，Key 不存在或已吊销返回 null
+     */
+    static async authenticate(store: IStore, key: string, rootKey: string): Promise<AdminPrincipal | null> {
+        if (!key) return null;
+
+        const keyHash = await Hash.sha256(key);
+        if (await this.isRootKeyHash(keyHash, rootKey)) return this.ROOT;
+        if (!key.startsWith(this.KEY_PREFIX)) return null;
+
+        return this.getActive(store, keyHash);
+    }
+
+    /**
+     * 以 Key 哈希认证管理员（登录会话中只保存 Key 哈希）
+     */
+    static async authenticateHash(store: IStore, keyHash: string, rootKey: string): Promise<AdminPrincipal | null> {
+        if (await this.isRootKeyHash(keyHash, rootKey)) return this.ROOT;
+
+        return this.getActive(store, keyHash);
+    }
+
+    /**
+     * 列出所有管理员（含已吊销）
+     */
+    static async list(store: IStore): Promise<AdminPrincipal[]> {
+        return (await store.listAdmins()).map(admin => this.principal(admin));
+    }
+
+    /**
+     * 吊销管理员 Key，立即失效且不可恢复
+     */
+    static async revoke(store: IStore, id: string): Promise<[boolean, AdminPrincipal | null]> {
+        const admin = (await store.listAdmins()).find(a => a.id === id);
+        if (!admin) return [false, null];
+
+        if (admin.revokedTime === undefined) {
+            admin.revokedTime = serverT.now();
+            await store.putAdmin(admin);
+        }
+        return [true, this.principal(admin)];
+    }
+
+    static hasScope(admin: AdminPrincipal, scope: AdminScope): boolean {
+        return admin.scopes.includes(scope);
+    }
+
+    /**
+     * 管理员是否可以操作指定产品
+     */
+    static canAccessProduct(admin: AdminPrincipal, productId: string): boolean {
+        return !admin.products || admin.products.includes(productId);
+    }
+
+    /**
+     * 无法归属到单个产品的操作（按激活码哈希吊销、查看审计日志等）只允许不限产品的管理员执行
+     */
+    static isUnrestricted(admin: AdminPrincipal): boolean {
+        return !admin.products;
+    }
+
+    /**
+     * 以常数时间比较 Key 哈希与 SUPER_ADMIN_KEY 的哈希，比较耗时不随相同前缀的长度变化
+     */
+    private static async isRootKeyHash(keyHash: string, rootKey: string): Promise<boolean> {
+        if (!rootKey) return false;
+
+        const encoder = new TextEncoder();
+        const actual = encoder.encode(keyHash);
+        const expected = encoder.encode(await Hash.sha256(rootKey));
+        return actual.byteLength === expected.byteLength && crypto.subtle.timingSafeEqual(actual, expected);
+    }
+
+    private static async getActive(store: IStore, keyHash: string): Promise<AdminPrincipal | null> {
+        const admin = await store.getAdminByKeyHash(keyHash);
+        return admin && admin.revokedTime === undefined ? this.principal(admin) : null;
+    }
+
+    private static principal(admin: IAdmin): AdminPrincipal {
+        const { keyHash: _, ...principal } = admin;
+        return principal;
+    }
+}
@@ -0,0 +1,115 @@
+﻿// tool/adminSession.ts
+import type {IAdminTotp, IStore} from "../store/store";
+import {CONFIG} from "../config";
+import {randomString, serverT} from "./tool";
+import {Hash} from "./hash";
+import {Totp} from "./totp";
+
+/**
+ * 管理后台登录会话（保存在 KV，按 CONFIG.ADMIN_SESSION_TTL 过期）
+ */
+export interface IAdminSession {
+    /** 登录所用 Key 的哈希，每次请求据此重新解析管理员，Key 吊销后会话随即失效 */
+    keyHash: string;
+    csrfToken: string;
+    /** 毫秒时间戳 */
+    expiresTime: number;
+}
+
+/**
+ * 管理后台登录：API Key + TOTP 验证码换取 HttpOnly 会话 Cookie
+ * 会话 ID 只保存其哈希；非 GET 请求须在 X-CSRF-Token 头中携带登录时返回的 CSRF Token
+ */
+export class AdminSession {
+    static readonly COOKIE_NAME = "cas_session";
+    static readonly CSRF_HEADER = "X-CSRF-Token";
+    private static readonly SESSION_PREFIX = "AS:";
+    private static readonly ID_LENGTH = 48;
+    private static readonly CSRF_LENGTH = 32;
+
+    /**
+     * 生成 TOTP 登记，已确认的登记不会被覆盖（须由其他管理员重置）
+     * @returns 新的登记，已确认时返回 null
+     */
+    static async enroll(store: IStore, adminId: string): Promise<IAdminTotp | null> {
+        const existing = await store.getAdminTotp(adminId);
+        if (existing?.confirmed) return null;
+
+        const totp: IAdminTotp = {
+            adminId,
+            secret: Totp.generateSecret(),
+            confirmed: false,
+            lastStep: 0,
+            createdTime: serverT.now()
+        };
+        await store.putAdminTotp(totp);
+        return totp;
+    }
+
+    /**
+     * 管理员是否已确认 TOTP 登记（已确认的管理员只能通过登录会话访问后台）
+     */
+    static async isTotpEnrolled(store: IStore, adminId: string): Promise<boolean> {
+        return (await store.getAdminTotp(adminId))?.confirmed === true;
+    }
+
+    /**
+     * 校验 TOTP 验证码，通过后原子地记录时间步并确认登记，并发提交的同一验证码只有一个通过
+     */
+    static async verifyTotp(store: IStore, totp: IAdminTotp, code: string): Promise<boolean> {
+        const step = await Totp.verify(totp.secret, code, totp.lastStep);
+        if (step < 0) return false;
+
+        return store.useAdminTotpStep(totp, step);
+    }
+
+    /**
+     * 创建会话
+     * @returns [会话 ID, 会话]
+     */
+    static async create(kv: KVNamespace, keyHash: string): Promise<[string, IAdminSession]> {
+        const id = randomString(this.ID_LENGTH);
+        const session: IAdminSession = {
+            keyHash,
+            csrfToken: randomString(this.CSRF_LENGTH),
+            expiresTime: Date.now() + CONFIG.ADMIN_SESSION_TTL * 1000
+        };
+
+        await kv.put(await this.kvKey(id), JSON.stringify(session), { expirationTtl: CONFIG.ADMIN_SESSION_TTL });
+        return [id, session];
+    }
+
+    /**
+     * 读取会话，不存在或已过期返回 null
+     */
+    static async get(kv: KVNamespace, id: string): Promise<IAdminSession | null> {
+        if (id.length !== this.ID_LENGTH) return null;
+
+        const sessionStr = await kv.get(await this.kvKey(id));
+        if (!sessionStr) return null;
+
+        const session = JSON.parse(sessionStr) as IAdminSession;
+        return session.expiresTime > Date.now() ? session : null;
+    }
+
+    static async destroy(kv: KVNamespace, id: string): Promise<void> {
+        await kv.delete(await this.kvKey(id));
+    }
+
+    /**
+     * 校验 CSRF Token（定长比较）
+     */
+    static checkCsrf(session: IAdminSession, token: string | undefined): boolean {
+        if (!token || token.length !== session.csrfToken.length) return false;
+
+        let diff = 0;
+        for (let i = 0; i < token.length; i++) {
+            diff |= token.charCodeAt(i) ^ session.csrfToken.charCodeAt(i);
+        }
+        return diff === 0;
+    }
+
+    private static async kvKey(id: string): Promise<string> {
+        return `${this.SESSION_PREFIX}${await Hash.sha256(id)}`;
+    }
+}
@@ -14,11 +14,11 @@ export class AES {
         HASH_ALGORITHM: 'SHA-256',
         HKDF_SALT: 'license-system',
         HKDF_INFO: 'activation-code',
+        SESSION_HKDF_INFO: 'session-v2',
     } as const;
 
-// 缓存变量
-    static cachedAesKeyBuffer: ArrayBuffer | null = null;
-    static cachedServerKey: string | null = null;
+// 缓存变量（按服务器密钥缓存，支持密钥环中的多个密钥）
+    static cachedAesKeys = new Map<string, ArrayBuffer>();
 
 
     /**
@@ -29,47 +29,62 @@ export class AES {
      */
     static async getAesKey(serverKey: string): Promise<ArrayBuffer> {
         // 检查缓存
-        if (this.cachedAesKeyBuffer && this.cachedServerKey === serverKey) {
-            return this.cachedAesKeyBuffer;
+        const cached = this.cachedAesKeys.get(serverKey);
+        if (cached) {
+            return cached;
         }
 
         try {
-            // 导入基础密钥
-            const baseKey = await crypto.subtle.importKey(
-                'raw',
+            const keyBuffer = await this.deriveKey(
                 new TextEncoder().encode(serverKey),
-                'HKDF',
-                false,
-                ['deriveKey']
+                this.CRYPTO_CONFIG.HKDF_SALT,
+                this.CRYPTO_CONFIG.HKDF_INFO
             );
+            this.cachedAesKeys.set(serverKey, keyBuffer);
 
-            // 使用 HKDF 派生 AES 密钥
-            const aesKey = await crypto.subtle.deriveKey(
-                {
-                    name: 'HKDF',
-                    hash: this.CRYPTO_CONFIG.HASH_ALGORITHM,
-                    salt: new TextEncoder().encode(this.CRYPTO_CONFIG.HKDF_SALT),
-                    info: new TextEncoder().encode(this.CRYPTO_CONFIG.HKDF_INFO),
-                },
-                baseKey,
-                {
-                    name: this.CRYPTO_CONFIG.ALGORITHM,
-                    length: this.CRYPTO_CONFIG.AES_KEY_LENGTH,
-                },
-                true,
-                ['encrypt', 'decrypt']
-            );
-
-            // 导出并缓存密钥
-            this.cachedAesKeyBuffer = (await crypto.subtle.exportKey('raw', aesKey)) as ArrayBuffer;
-            this.cachedServerKey = serverKey;
-
-            return this.cachedAesKeyBuffer;
+            return keyBuffer;
         } catch (error) {
             throw new Error(`密钥派生失败: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
+    /**
+     * 使用 HKDF 从密钥材料派生 AES 密钥
+     * @param ikm - 原始密钥材料（如服务器密钥或 ECDH 共享密钥）
+     * @param salt - HKDF 盐值
+     * @param info - HKDF 上下文信息
+     * @returns AES 密钥的 ArrayBuffer
+     */
+    static async deriveKey(ikm: ArrayBuffer | Uint8Array, salt: string, info: string): Promise<ArrayBuffer> {
+        // 导入基础密钥
+        const baseKey = await crypto.subtle.importKey(
+            'raw',
+            ikm,
+            'HKDF',
+            false,
+            ['deriveKey']
+        );
+
+        // 使用 HKDF 派生 AES 密钥
+        const aesKey = await crypto.subtle.deriveKey(
+            {
+                name: 'HKDF',
+                hash: this.CRYPTO_CONFIG.HASH_ALGORITHM,
+                salt: new TextEncoder().encode(salt),
+                info: new TextEncoder().encode(info),
+            },
+            baseKey,
+            {
+                name: this.CRYPTO_CONFIG.ALGORITHM,
+                length: this.CRYPTO_CONFIG.AES_KEY_LENGTH,
+            },
+            true,
+            ['encrypt', 'decrypt']
+        );
+
+        return (await crypto.subtle.exportKey('raw', aesKey)) as ArrayBuffer;
+    }
+
     /**
      * 使用 AES-GCM 加密数据
      * @param plaintext - 待加密的明文字符串
@@ -177,8 +192,7 @@ export class AES {
      * 用于安全地清理敏感数据
      */
     static clearCache(): void {
-        this.cachedAesKeyBuffer = null;
-        this.cachedServerKey = null;
+        this.cachedAesKeys.clear();
     }
 
 
@@ -0,0 +1,41 @@
+﻿// tool/audit.ts
+import type {IAuditEvent, IAuditQuery, IStore} from "../store/store";
+import {generateUUID, serverT} from "./tool";
+
+export type AuditInput = Omit<IAuditEvent, "id" | "time">;
+
+/**
+ * 审计日志
+ * 写入失败只记录错误日志，不影响业务流程
+ */
+export class Audit {
+    // KV 元数据上限 1024 字节，附加信息需截断
+    private static readonly MAX_DETAIL_LENGTH = 256;
+
+    /**
+     * 追加一条或多条审计事件
+     */
+    static async record(store: IStore, ...inputs: AuditInput[]): Promise<void> {
+        const time = serverT.now();
+        const events: IAuditEvent[] = inputs.map(input => ({
+            id: generateUUID(),
+            time,
+            ...input,
+            detail: input.detail?.slice(0, this.MAX_DETAIL_LENGTH)
+        }));
+
+        try {
+            await store.appendAudit(events);
+        } catch (error) {
+            console.error("Audit write failed:", error, events);
+        }
+    }
+
+    /**
+     * 查询审计事件（按时间倒序）
+     */
+    static async query(store: IStore, query: IAuditQuery): Promise<(IAuditEvent & { date: string })[]> {
+        const events = await store.queryAudit(query);
+        return events.map(e => ({ ...e, date: serverT.toDate(e.time).toISOString() }));
+    }
+}
@@ -0,0 +1,141 @@
+﻿// tool/batch.ts
+import type {CodeFormat, CodeMode, IBatch, IStore} from "../store/store";
+import {randomString, serverT} from "./tool";
+import {Code, Product} from "./code";
+import {Keyring} from "./keyring";
+import {Revocation} from "./revocation";
+import {Csv} from "./csv";
+import {CONFIG} from "../config";
+
+export type BatchExportType = "csv" | "json";
+
+export const BATCH_EXPORT_TYPES: readonly BatchExportType[] = ["csv", "json"];
+
+type BatchSummary = IBatch & { createdDate: string; expirationDate: string };
+
+/**
+ * 激活码批次
+ * 激活码原文随批次保存在服务器，可随时重新导出；吊销批次即吊销其中的每个激活码
+ */
+export class Batch {
+    private static readonly ID_LENGTH = 12;
+    private static readonly CSV_HEADER = [
+        "code", "batchId", "label", "productId", "mode", "expirationDate", "activationDuration", "amount", "features"
+    ];
+
+    /**
+     * 批量生成激活码并保存为批次
+     * 未指定格式时使用产品的默认格式
+     */
+    static async create(
+        store: IStore,
+        keyring: Keyring,
+        productId: string,
+        label: string,
+        count: number,
+        expirationPeriod: number,
+        activationDuration: number,
+        amount: number,
+        features: string[] = [],
+        mode: CodeMode = "standard",
+        format?: CodeFormat
+    ): Promise<[boolean, IBatch | null, string[]]> {
+        format ??= await Product.getCodeFormat(store, productId);
+
+        const [success, codes] = await Code.gentMany(
+            store, keyring, productId, count, expirationPeriod, activationDuration, amount, features, mode, format
+        );
+        if (!success) return [false, null, []];
+
+        const now = serverT.now();
+        const batch: IBatch = {
+            id: randomString(this.ID_LENGTH),
+            label,
+            productId,
+            count,
+            format,
+            mode,
+            expirationTime: now + expirationPeriod,
+            activationDuration,
+            amount,
+            features,
+            createdTime: now
+        };
+        await store.putBatch(batch, codes);
+
+        return [true, batch, codes];
+    }
+
+    /**
+     * 列出批次（按创建时间倒序），附带可读日期
+     */
+    static async list(store: IStore, productId?: string): Promise<BatchSummary[]> {
+        const batches = await store.listBatches(productId);
+        return batches.map(batch => this.summarize(batch));
+    }
+
+    /**
+     * 获取批次详情
+     */
+    static async get(store: IStore, id: string): Promise<BatchSummary | null> {
+        const batch = await store.getBatch(id);
+        return batch ? this.summarize(batch) : null;
+    }
+
+    /**
+     * 导出批次的全部激活码
+     * @returns [文件内容, Content-Type]，批次不存在返回 null
+     */
+    static async export(store: IStore, id: string, type: BatchExportType): Promise<[string, string] | null> {
+        const batch = await this.get(store, id);
+        if (!batch) return null;
+
+        const codes = await store.getBatchCodes(id);
+
+        if (type === "json") {
+            return [JSON.stringify({ ...batch, codes }, null, 2), "application/json; charset=utf-8"];
+        }
+
+        const rows = codes.map(code => [
+            code,
+            batch.id,
+            batch.label,
+            batch.productId,
+            batch.mode,
+            batch.expirationDate,
+            String(batch.activationDuration),
+            String(batch.amount),
+            batch.features.join(";")
+        ]);
+        return [Csv.format([this.CSV_HEADER, ...rows]), "text/csv; charset=utf-8"];
+    }
+
+    /**
+     * 吊销批次中的激活码，每次最多吊销 CONFIG.BATCH_REVOKE_CHUNK 个（每个激活码一次 KV 写入）
+     * 进度保存在批次的 revokedCount 中，再次调用从上次停下的位置继续，全部吊销后记录 revokedTime
+     * @returns [是否成功, 批次, 本次吊销的数量]
+     */
+    static async revoke(store: IStore, id: string, reason: string = ""): Promise<[boolean, IBatch | null, number]> {
+        const batch = await store.getBatch(id);
+        if (!batch) return [false, null, 0];
+
+        const start = batch.revokedCount ?? 0;
+        const codes = (await store.getBatchCodes(id)).slice(start, start + CONFIG.BATCH_REVOKE_CHUNK);
+        const codeHashes = await Promise.all(codes.map(code => Code.codeHash(code)));
+        await Revocation.revokeMany(store.kv, codeHashes, `[batch ${id}] ${reason}`.trim());
+
+        const revokedCount = start + codes.length;
+        const revokedTime = batch.revokedTime ?? (revokedCount >= batch.count ? serverT.now() : undefined);
+        await store.setBatchRevoked(id, revokedCount, revokedTime);
+
+        return [true, { ...batch, revokedCount, revokedTime }, codes.length];
+    }
+
+    private static summarize(batch: IBatch): BatchSummary {
+        return {
+            ...batch,
+            createdDate: serverT.toDate(batch.createdTime).toISOString(),
+            expirationDate: serverT.toDate(batch.expirationTime).toISOString()
+        };
+    }
+}
@@ -1,62 +1,234 @@
 ﻿// tool/code.ts
-import {randomString, kvLock, randomInt, serverT, sleep} from "./tool";
+import {randomString, serverT} from "./tool";
+import {ISeat, Lock} from "./lock";
 import {Hash} from "./hash";
 import {AES} from "./aes";
 import {Base64} from "./base64";
+import {CONFIG} from "../config";
+import {IRevocation, Revocation} from "./revocation";
+import {License} from "./license";
+import {IServerKey, Keyring} from "./keyring";
+import {Stats} from "./stats";
+import {ShortCode} from "./shortCode";
+import {
+    CodeFormat, CodeMode, IActivation, ICodeInfo, ICodeMeta, IIssuedCode, ILicenseTemplate, IProduct, IShortCode,
+    IStore, ITransferInfo, ITrialPolicy, ProductStatus
+} from "../store/store";
 
-interface IProduct {
-    name: string;
-    id: string;
+export const PRODUCT_STATUSES: readonly ProductStatus[] = ["active", "disabled", "archived"];
+export const CODE_FORMATS: readonly CodeFormat[] = ["long", "short"];
+
+interface ICodeTerms {
+    /** 规范形式：短激活码为规范化后的短码，长激活码为 "密钥ID.Base64"（见 Code.canonicalLong） */
+    code: string;
+    /** 短激活码不含密钥 ID，为空字符串 */
+    keyId: string;
+    format: CodeFormat;
+    productId: string;
+    expirationTime: number;
+    activationDuration: number;
+    amount: number;
+    features: string[];
+    mode: CodeMode;
 }
 
-interface ICodeInfo {
-    uuid: string;
-    binding: string;
+interface ICodeInspection {
+    codeHash: string;
+    keyId: string;
+    format: CodeFormat;
+    productId: string;
+    productName: string;
     expirationTime: number;
+    expirationDate: string;
+    expired: boolean;
+    activationDuration: number;
     amount: number;
+    features: string[];
+    mode: CodeMode;
+    used: number;
+    revocation: IRevocation | null;
+    activations: IActivation[];
+    /** 浮动授权当前的席位持有者 */
+    leases: ISeat[];
+    /** 生成时记录的客户、订单等附加信息 */
+    meta: ICodeMeta | null;
 }
 
-type VerifyResult = [success: boolean, productId: string, duration: number, amount: number];
-type AuthResult = [success: boolean, uuid: string, remaining: number];
+type VerifyResult = [
+    success: boolean, productId: string, duration: number, amount: number, features: string[], mode: CodeMode
+];
+type AuthResult = [success: boolean, uuid: string, remaining: number, features: string[], license: string];
+type DeactivateResult = [success: boolean, remaining: number, transfersLeft: number];
+type LeaseResult = [success: boolean, leaseId: string, ttl: number, features: string[]];
+type TrialResult = [
+    success: boolean, code: string, uuid: string, expirationTime: number, features: string[], license: string
+];
 
 export class Product {
-    private static readonly PRODUCT_KEY = "product";
     private static readonly PRODUCT_ID_LENGTH = 7;
 
     /**
      * 设置/添加产品
      */
-    static async set(kv: KVNamespace, name: string): Promise<[boolean, string]> {
+    static async set(store: IStore, name: string): Promise<[boolean, string]> {
         name = name.trim();
         if (!name) return [false, ""];
 
-        await kvLock.waitAndAcquire(kv, name);
-        try {
-            const products = await this.gets(kv);
-
+        return store.modifyProducts(products => {
             // 检查产品名是否已存在
             if (products.some(p => p.name === name)) {
                 return [false, ""];
             }
 
             const id = randomString(this.PRODUCT_ID_LENGTH);
-            products.push({ name, id });
-            await kv.put(this.PRODUCT_KEY, JSON.stringify(products));
+            products.push({ name, id, status: "active" });
 
             return [true, id];
-        } finally {
-            await kvLock.release(kv, name);
-        }
+        });
+    }
+
+    /**
+     * 重命名产品
+     */
+    static async rename(store: IStore, id: string, name: string): Promise<boolean> {
+        name = name.trim();
+        if (!name) return false;
+
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+
+            // 检查产品是否存在，以及新名称是否被其它产品占用
+            if (!product || products.some(p => p.name === name && p.id !== id)) {
+                return [false, null];
+            }
+
+            product.name = name;
+            return [true, null];
+        });
+
+        return success;
+    }
+
+    /**
+     * 设置产品状态（停用/归档/恢复）
+     */
+    static async setStatus(store: IStore, id: string, status: ProductStatus): Promise<boolean> {
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+            if (!product) return [false, null];
+
+            product.status = status;
+            return [true, null];
+        });
+
+        return success;
+    }
+
+    /**
+     * 添加/更新授权模板（按模板名覆盖）
+     */
+    static async setTemplate(store: IStore, id: string, template: ILicenseTemplate): Promise<boolean> {
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+            if (!product) return [false, null];
+
+            const templates = (product.templates ?? []).filter(t => t.name !== template.name);
+            templates.push(template);
+            product.templates = templates;
+
+            return [true, null];
+        });
+
+        return success;
+    }
+
+    /**
+     * 删除授权模板
+     */
+    static async deleteTemplate(store: IStore, id: string, name: string): Promise<boolean> {
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+            if (!product?.templates?.some(t => t.name === name)) return [false, null];
+
+            product.templates = product.templates.filter(t => t.name !== name);
+            return [true, null];
+        });
+
+        return success;
+    }
+
+    /**
+     * 设置试用策略，policy 为 null 时关闭试用
+     */
+    static async setTrial(store: IStore, id: string, policy: ITrialPolicy | null): Promise<boolean> {
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+            if (!product) return [false, null];
+
+            if (policy) {
+                product.trial = policy;
+            } else {
+                delete product.trial;
+            }
+            return [true, null];
+        });
+
+        return success;
+    }
+
+    /**
+     * 设置产品生成激活码的默认格式
+     */
+    static async setCodeFormat(store: IStore, id: string, format: CodeFormat): Promise<boolean> {
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+            if (!product) return [false, null];
+
+            product.codeFormat = format;
+            return [true, null];
+        });
+
+        return success;
+    }
+
+    /**
+     * 获取产品生成激活码的默认格式
+     */
+    static async getCodeFormat(store: IStore, id: string): Promise<CodeFormat> {
+        return (await this.getById(store, id))?.codeFormat ?? "long";
+    }
+
+    /**
+     * 获取授权模板
+     */
+    static async getTemplate(store: IStore, id: string, name: string): Promise<ILicenseTemplate | null> {
+        const product = await this.getById(store, id);
+        return product?.templates?.find(t => t.name === name) ?? null;
+    }
+
+    /**
+     * 设置产品的功能目录
+     */
+    static async setFeatures(store: IStore, id: string, features: string[]): Promise<boolean> {
+        const [success] = await store.modifyProducts(products => {
+            const product = products.find(p => p.id === id);
+            if (!product) return [false, null];
+
+            product.features = [...new Set(features)];
+            return [true, null];
+        });
+
+        return success;
     }
 
     /**
      * 获取单个产品
      */
-    static async get(kv: KVNamespace, name: string): Promise<[boolean, string]> {
+    static async get(store: IStore, name: string): Promise<[boolean, string]> {
         name = name.trim();
         if (!name) return [false, ""];
 
-        const products = await this.gets(kv);
+        const products = await this.gets(store);
         const product = products.find(p => p.name === name);
         return product ? [true, product.id] : [false, ""];
     }
@@ -64,58 +236,115 @@ export class Product {
     /**
      * 获取所有产品
      */
-    static async gets(kv: KVNamespace): Promise<IProduct[]> {
-        const productJson = await kv.get(this.PRODUCT_KEY);
-        if (!productJson) return [];
+    static async gets(store: IStore): Promise<IProduct[]> {
+        return store.getProducts();
+    }
 
-        try {
-            return JSON.parse(productJson) as IProduct[];
-        } catch {
-            return [];
-        }
+    /**
+     * 根据 ID 获取产品
+     */
+    static async getById(store: IStore, id: string): Promise<IProduct | null> {
+        id = id.trim();
+        if (!id) return null;
+
+        const products = await this.gets(store);
+        return products.find(p => p.id === id) ?? null;
+    }
+
+    /**
+     * 判断产品是否处于可用状态（未停用、未归档）
+     */
+    static async isActive(store: IStore, id: string): Promise<boolean> {
+        const product = await this.getById(store, id);
+        return !!product && (product.status ?? "active") === "active";
+    }
+
+    /**
+     * 判断功能是否都在产品的功能目录中
+     */
+    static async hasFeatures(store: IStore, id: string, features: string[]): Promise<boolean> {
+        if (features.length === 0) return true;
+
+        const catalog = (await this.getById(store, id))?.features ?? [];
+        return features.every(f => catalog.includes(f));
     }
 
     /**
      * 判断产品名是否存在
      */
-    static async existsName(kv: KVNamespace, name: string): Promise<boolean> {
+    static async existsName(store: IStore, name: string): Promise<boolean> {
         name = name.trim();
         if (!name) return false;
 
-        const products = await this.gets(kv);
+        const products = await this.gets(store);
         return products.some(p => p.name === name);
     }
 
     /**
      * 判断产品 ID 是否存在
      */
-    static async existsId(kv: KVNamespace, id: string): Promise<boolean> {
+    static async existsId(store: IStore, id: string): Promise<boolean> {
         id = id.trim();
         if (!id) return false;
 
-        const products = await this.gets(kv);
+        const products = await this.gets(store);
         return products.some(p => p.id === id);
     }
 }
 
 export class Code {
     private static readonly CODE_PREFIX = "C:";
-    private static readonly CODE_INFO_PREFIX = "CI:";
+    private static readonly SEAT_PREFIX = "F:";
+    private static readonly TRIAL_CODE_PREFIX = "trial.";
+    private static readonly TRIAL_CODE_LENGTH = 16;
+    /** 激活码类型标记，standard 无标记 */
+    private static readonly MODE_FLAGS: Record<Exclude<CodeMode, "standard">, string> = {
+        floating: "F",
+        renewal: "R"
+    };
     private static readonly COLON_CHAR_CODE = 58;
     private static readonly RANDOM_S_LENGTH = 7;
+    private static readonly FEATURE_SEPARATOR = ",";
+    private static readonly KEY_ID_SEPARATOR = ".";
+
+    /**
+     * 计算激活码哈希（用于各类以激活码为键的记录）
+     * 短激活码先规范化，使大小写、分隔符不同的输入得到同一哈希；客户端提交的长激活码须用 canonicalHash
+     */
+    static async codeHash(code: string): Promise<string> {
+        const normalized = ShortCode.looksShort(code) ? ShortCode.normalize(code) : null;
+        return Hash.sha1(normalized ?? code);
+    }
+
+    /**
+     * 计算激活码的规范哈希，省略或补上密钥 ID 的同一激活码得到同一哈希；无法解码的激活码（如试用码）按原文计算
+     */
+    static async canonicalHash(store: IStore, keyring: Keyring, code: string): Promise<string> {
+        const [codeHash] = await this.resolve(store, keyring, code);
+        return codeHash;
+    }
 
     /**
      * 生成激活码
+     * 格式为 "密钥ID.Base64"，Base64 字符集不含 "."，无前缀的旧激活码仍可解码
      */
     private static async _generate(
-        aesKey: string,
+        serverKey: IServerKey,
         productId: string,
         expirationPeriod: number,
         activationDuration: number,
-        amount: number
+        amount: number,
+        features: string[],
+        mode: CodeMode
     ): Promise<string> {
         const randomS = randomString(this.RANDOM_S_LENGTH);
-        const s1 = `${randomS}:${productId}`;
+        // 功能列表与类型标记随产品 ID 一起加密并参与哈希；无功能的普通激活码沿用旧格式
+        const featureStr = features.join(this.FEATURE_SEPARATOR);
+        const s1 = mode !== "standard"
+            ? `${randomS}:${productId}:${featureStr}:${this.MODE_FLAGS[mode]}`
+            : features.length > 0
+                ? `${randomS}:${productId}:${featureStr}`
+                : `${randomS}:${productId}`;
         const s2 = `:${serverT.now() + expirationPeriod}:${activationDuration}:${amount}`;
 
         const [sha256_1, sha256_2] = await Promise.all([
@@ -127,31 +356,95 @@ export class Code {
         const plaintext = `${s1}:${mixed}`;
 
         const encoder = new TextEncoder();
-        const u1 = await AES.encrypt(plaintext, await AES.getAesKey(aesKey));
+        const u1 = await AES.encrypt(plaintext, await AES.getAesKey(serverKey.secret));
         const u2 = encoder.encode(s2);
 
         const codeU8 = new Uint8Array(u1.length + u2.length);
         codeU8.set(u1, 0);
         codeU8.set(u2, u1.length);
 
-        return Base64.fromBuffer(codeU8);
+        return `${serverKey.id}${this.KEY_ID_SEPARATOR}${Base64.fromBuffer(codeU8)}`;
+    }
+
+    /**
+     * 生成一组激活码并批量登记
+     * 未指定格式时使用产品的默认格式；长码登记其密钥 ID，短码将条款保存到服务器
+     */
+    private static async issue(
+        store: IStore,
+        keyring: Keyring,
+        productId: string,
+        count: number,
+        expirationPeriod: number,
+        activationDuration: number,
+        amount: number,
+        features: string[],
+        mode: CodeMode,
+        format?: CodeFormat
+    ): Promise<string[]> {
+        format ??= await Product.getCodeFormat(store, productId);
+
+        const now = serverT.now();
+        const expirationTime = now + expirationPeriod;
+        const codes: string[] = [];
+
+        if (format === "short") {
+            const shortCodes: IShortCode[] = [];
+            for (let i = 0; i < count; i++) {
+                const code = ShortCode.generate();
+                codes.push(code);
+                shortCodes.push({
+                    codeHash: await this.codeHash(code),
+                    productId,
+                    expirationTime,
+                    activationDuration,
+                    amount,
+                    features,
+                    mode,
+                    createdTime: now
+                });
+            }
+            await store.putShortCodes(shortCodes);
+        } else {
+            const key = keyring.current;
+            const issued: IIssuedCode[] = [];
+            for (let i = 0; i < count; i++) {
+                const code = await this._generate(
+                    key, productId, expirationPeriod, activationDuration, amount, features, mode
+                );
+                codes.push(code);
+                issued.push({
+                    codeHash: await this.codeHash(code), keyId: key.id, productId, expirationTime, createdTime: now
+                });
+            }
+            await store.putIssuedCodes(issued);
+        }
+
+        await Stats.record(store, productId, "issued", count);
+        return codes;
     }
 
     /**
      * 根据产品名生成激活码
      */
     static async gent(
-        kv: KVNamespace,
-        aesKey: string,
+        store: IStore,
+        keyring: Keyring,
         productName: string,
         expirationPeriod: number,
         activationDuration: number,
-        amount: number
+        amount: number,
+        features: string[] = [],
+        mode: CodeMode = "standard",
+        format?: CodeFormat
     ): Promise<[boolean, string]> {
-        const [exists, productId] = await Product.get(kv, productName);
-        if (!exists) return [false, ""];
+        const [exists, productId] = await Product.get(store, productName);
+        if (!exists || !(await Product.isActive(store, productId))) return [false, ""];
+        if (!(await Product.hasFeatures(store, productId, features))) return [false, ""];
 
-        const code = await this._generate(aesKey, productId, expirationPeriod, activationDuration, amount);
+        const [code] = await this.issue(
+            store, keyring, productId, 1, expirationPeriod, activationDuration, amount, features, mode, format
+        );
         return [true, code];
     }
 
@@ -159,21 +452,58 @@ export class Code {
      * 根据产品ID生成激活码
      */
     static async gentId(
-        kv: KVNamespace,
-        aesKey: string,
+        store: IStore,
+        keyring: Keyring,
         productId: string,
         expirationPeriod: number,
         activationDuration: number,
-        amount: number
+        amount: number,
+        features: string[] = [],
+        mode: CodeMode = "standard",
+        format?: CodeFormat
     ): Promise<[boolean, string]> {
-        if (!(await Product.existsId(kv, productId))) {
+        if (!(await Product.isActive(store, productId))) {
+            return [false, ""];
+        }
+        if (!(await Product.hasFeatures(store, productId, features))) {
             return [false, ""];
         }
 
-        const code = await this._generate(aesKey, productId, expirationPeriod, activationDuration, amount);
+        const [code] = await this.issue(
+            store, keyring, productId, 1, expirationPeriod, activationDuration, amount, features, mode, format
+        );
         return [true, code];
     }
 
+    /**
+     * 根据产品ID批量生成激活码
+     * 产品只校验一次，登记记录与统计批量写入
+     */
+    static async gentMany(
+        store: IStore,
+        keyring: Keyring,
+        productId: string,
+        count: number,
+        expirationPeriod: number,
+        activationDuration: number,
+        amount: number,
+        features: string[] = [],
+        mode: CodeMode = "standard",
+        format?: CodeFormat
+    ): Promise<[boolean, string[]]> {
+        if (!(await Product.isActive(store, productId))) {
+            return [false, []];
+        }
+        if (!(await Product.hasFeatures(store, productId, features))) {
+            return [false, []];
+        }
+
+        const codes = await this.issue(
+            store, keyring, productId, count, expirationPeriod, activationDuration, amount, features, mode, format
+        );
+        return [true, codes];
+    }
+
     /**
      * 查找第n个冒号的位置（从右向左）
      */
@@ -189,163 +519,321 @@ export class Code {
     }
 
     /**
-     * 验证激活码
+     * 解码激活码（不检查产品与过期时间）
+     * 短激活码校验校验位后查询服务器保存的条款；
+     * 带密钥 ID 的激活码只用对应密钥解密；无 ID 的旧激活码依次尝试密钥环中的所有密钥
      */
-    static async verify(aesKey: string, code: string, productId: string): Promise<VerifyResult> {
+    private static async decode(store: IStore, keyring: Keyring, code: string): Promise<ICodeTerms | null> {
+        if (ShortCode.looksShort(code)) {
+            const normalized = ShortCode.normalize(code);
+            if (!normalized) return null;
+
+            const shortCode = await store.getShortCode(await this.codeHash(normalized));
+            if (!shortCode) return null;
+
+            const {productId, expirationTime, activationDuration, amount, features, mode} = shortCode;
+            return {
+                code: normalized, keyId: "", format: "short", productId, expirationTime, activationDuration, amount,
+                features, mode
+            };
+        }
+
+        let keys = keyring.all();
+        let body = code;
+        const sep = code.indexOf(this.KEY_ID_SEPARATOR);
+        if (sep !== -1) {
+            const key = keyring.get(code.slice(0, sep));
+            keys = key ? [key] : [];
+            body = code.slice(sep + 1);
+        }
+
+        for (const key of keys) {
+            const terms = await this.decodeWith(key, body);
+            if (terms) return { ...terms, code: await this.canonicalLong(store, key, body) };
+        }
+        return null;
+    }
+
+    /**
+     * 解码激活码并计算其规范哈希（无法解码时按原文计算）
+     */
+    private static async resolve(store: IStore, keyring: Keyring, code: string): Promise<[string, ICodeTerms | null]> {
+        const terms = await this.decode(store, keyring, code);
+        return [await this.codeHash(terms?.code ?? code), terms];
+    }
+
+    /**
+     * 长激活码的规范形式为 "密钥ID.Base64"，无论客户端是否带上密钥 ID 都对应同一组使用次数、锁、吊销与激活记录；
+     * 密钥 ID 引入前已按无前缀原文使用或吊销过的旧激活码保持原文，沿用其已有记录
+     */
+    private static async canonicalLong(store: IStore, key: IServerKey, body: string): Promise<string> {
+        const legacyHash = await this.codeHash(body);
+        const [used, revoked] = await Promise.all([
+            store.getUsed(legacyHash),
+            Revocation.isRevoked(store.kv, legacyHash)
+        ]);
+
+        return used === null && !revoked ? `${key.id}${this.KEY_ID_SEPARATOR}${body}` : body;
+    }
+
+    /**
+     * 使用指定密钥解码激活码并校验完整性
+     */
+    private static async decodeWith(serverKey: IServerKey, code: string): Promise<Omit<ICodeTerms, "code"> | null> {
         try {
             const codeU8 = Base64.toUint8Array(code);
             const splitIndex = this.findNthColonFromEnd(codeU8, 3);
 
             if (splitIndex === -1) {
-                return [false, "", 0, 0];
+                return null;
             }
 
             const u1 = codeU8.slice(0, splitIndex);
             const u2 = codeU8.slice(splitIndex);
             const s2 = new TextDecoder().decode(u2);
 
-            // 解密并验证
-            const decrypted = await AES.decrypt(u1, await AES.getAesKey(aesKey));
+            // 解密
+            const decrypted = await AES.decrypt(u1, await AES.getAesKey(serverKey.secret));
             const parts = decrypted.split(":");
 
             if (parts.length < 3) {
-                return [false, "", 0, 0];
+                return null;
             }
 
-            const [randomS, prodId, mixed] = parts;
-
-            // 验证产品 ID
-            if (prodId !== productId) {
-                return [false, "", 0, 0];
-            }
+            // 旧格式: randomS:productId:mixed；带功能: randomS:productId:features:mixed
+            // 其它类型: randomS:productId:features:类型标记:mixed
+            const [, prodId] = parts;
+            const featureStr = parts.length >= 4 ? parts[2] : null;
+            const flag = parts.length >= 5 ? parts[3] : null;
+            const mode = (Object.entries(this.MODE_FLAGS).find(([, f]) => f === flag)?.[0] ?? "standard") as CodeMode;
+            const mixed = parts[parts.length - 1];
+            const s1 = parts.slice(0, -1).join(":");
 
             // 解析时间信息
             const s2Parts = s2.split(":");
             if (s2Parts.length < 4) {
-                return [false, "", 0, 0];
+                return null;
             }
 
             const expirationTime = parseInt(s2Parts[1], 10);
             const activationDuration = parseInt(s2Parts[2], 10);
             const amount = parseInt(s2Parts[3], 10);
 
-            // 检查是否过期
-            if (expirationTime < serverT.now()) {
-                return [false, "", 0, 0];
-            }
-
             // 验证哈希
             const [sha256_1, sha256_2] = await Promise.all([
-                Hash.sha1(`${randomS}:${prodId}`),
+                Hash.sha1(s1),
                 Hash.sha1(s2)
             ]);
             const recombined = await Hash.sha1(`${sha256_1}:${sha256_2}`);
 
             if (recombined !== mixed) {
-                return [false, "", 0, 0];
+                return null;
             }
 
-            return [true, productId, activationDuration, amount];
+            const features = featureStr ? featureStr.split(this.FEATURE_SEPARATOR) : [];
+
+            return {
+                keyId: serverKey.id, format: "long", productId: prodId, expirationTime, activationDuration, amount,
+                features, mode
+            };
         } catch {
-            return [false, "", 0, 0];
+            return null;
         }
     }
 
+    /**
+     * 验证激活码
+     */
+    static async verify(store: IStore, keyring: Keyring, code: string, productId: string): Promise<VerifyResult> {
+        return this.checkTerms(store, await this.decode(store, keyring, code), productId);
+    }
+
+    /**
+     * 校验已解码的条款：属于该产品、产品启用且未过期
+     */
+    private static async checkTerms(store: IStore, terms: ICodeTerms | null, productId: string): Promise<VerifyResult> {
+        // 验证产品 ID
+        if (!terms || terms.productId !== productId) {
+            return [false, "", 0, 0, [], "standard"];
+        }
+
+        // 产品停用或归档后拒绝其所有激活码
+        if (!(await Product.isActive(store, productId))) {
+            return [false, "", 0, 0, [], "standard"];
+        }
+
+        // 检查是否过期
+        if (terms.expirationTime < serverT.now()) {
+            return [false, "", 0, 0, [], "standard"];
+        }
+
+        return [true, productId, terms.activationDuration, terms.amount, terms.features, terms.mode];
+    }
+
+    /**
+     * 查看激活码详情（不消耗使用次数）
+     */
+    static async inspect(store: IStore, keyring: Keyring, code: string): Promise<ICodeInspection | null> {
+        const [codeHash, terms] = await this.resolve(store, keyring, code);
+        if (!terms) return null;
+
+        const [used, products, revocation, activations, leases, meta] = await Promise.all([
+            store.getUsed(codeHash),
+            Product.gets(store),
+            Revocation.get(store.kv, codeHash),
+            store.listActivations(codeHash),
+            terms.mode === "floating" ? this.leases(store, codeHash) : [],
+            store.getCodeMeta(codeHash)
+        ]);
+
+        return {
+            codeHash,
+            keyId: terms.keyId,
+            format: terms.format,
+            productId: terms.productId,
+            productName: products.find(p => p.id === terms.productId)?.name ?? "",
+            expirationTime: terms.expirationTime,
+            expirationDate: serverT.toDate(terms.expirationTime).toISOString(),
+            expired: terms.expirationTime < serverT.now(),
+            activationDuration: terms.activationDuration,
+            amount: terms.amount,
+            features: terms.features,
+            mode: terms.mode,
+            used: used ?? 0,
+            revocation,
+            activations,
+            leases,
+            meta
+        };
+    }
+
     /**
      * 激活码认证
+     * 成功计入 redeemed；失败仅在产品存在时计入 failures，避免任意产品 ID 产生统计记录
      */
     static async auth(
-        kv: KVNamespace,
-        aesKey: string,
+        store: IStore,
+        keyring: Keyring,
         code: string,
         productId: string,
         binding: string = ""
     ): Promise<AuthResult> {
-        const key = `${this.CODE_PREFIX}${await Hash.sha1(code)}`;
-        const lock = await kvLock.acquire(kv, key);
+        const result = await this.redeem(store, keyring, code, productId, binding);
+
+        if (result[0]) {
+            await Stats.record(store, productId, "redeemed");
+        } else if (await Product.existsId(store, productId)) {
+            await Stats.record(store, productId, "failures");
+        }
+
+        return result;
+    }
+
+    /**
+     * 占用一次使用次数并创建激活记录
+     */
+    private static async redeem(
+        store: IStore,
+        keyring: Keyring,
+        code: string,
+        productId: string,
+        binding: string
+    ): Promise<AuthResult> {
+        const [codeHash, terms] = await this.resolve(store, keyring, code);
+        const key = `${this.CODE_PREFIX}${codeHash}`;
+        const token = await Lock.acquire(store.lock, key);
 
-        if (!lock) {
-            await sleep(randomInt(500, 700));
-            return [false, "", 0];
+        if (!token) {
+            return [false, "", 0, [], ""];
         }
 
         try {
-            // 验证激活码
-            const [valid, , duration, maxAmount] = await this.verify(aesKey, code, productId);
+            // 检查激活码是否已被吊销
+            if (await Revocation.isRevoked(store.kv, codeHash)) {
+                return [false, "", 0, [], ""];
+            }
+
+            // 验证激活码（浮动授权的激活码只能签出席位，续期码只能用于续期）
+            const [valid, , duration, maxAmount, features, mode] = await this.checkTerms(store, terms, productId);
 
-            if (!valid) {
-                await sleep(randomInt(100, 400));
-                return [false, "", 0];
+            if (!valid || mode !== "standard") {
+                return [false, "", 0, [], ""];
             }
 
-            // 获取使用次数
-            const usedStr = await kv.get(key);
-            const used = usedStr ? parseInt(usedStr, 10) : 0;
+            // 原子地占用一次使用次数
+            const newUsed = await store.incrementUsed(codeHash, maxAmount);
 
             // 检查是否超过使用次数
-            if (used >= maxAmount) {
-                return [false, "", 0];
+            if (newUsed === -1) {
+                return [false, "", 0, [], ""];
             }
 
             // 创建新的使用记录
-            const newUsed = used + 1;
             const uuid = crypto.randomUUID();
             const bindingHash = await Hash.sha1(binding + key);
-            const expirationTime = serverT.now() + duration;
+            const createdTime = serverT.now();
+            const expirationTime = createdTime + duration;
 
             const codeInfo: ICodeInfo = {
                 uuid,
                 binding: bindingHash,
                 expirationTime,
-                amount: maxAmount
+                amount: maxAmount,
+                productId,
+                features,
+                createdTime
             };
 
-            await Promise.all([
-                kv.put(key, newUsed.toString()),
-                kv.put(`${this.CODE_INFO_PREFIX}${uuid}`,
-                    JSON.stringify(codeInfo), { expirationTtl: duration }
-                )
-            ]);
+            await store.putActivation(codeHash, codeInfo, duration);
+
+            // 签发离线授权令牌
+            const license = await License.issue(
+                store.kv, store.lock, productId, bindingHash, uuid, expirationTime, features
+            );
 
-            return [true, uuid, maxAmount - newUsed];
+            return [true, uuid, maxAmount - newUsed, features, license];
         } finally {
-            await kvLock.release(kv, key);
+            await Lock.release(store.lock, key, token);
         }
     }
 
     /**
      * 重新认证
+     * 找到激活记录后成功计入 reauths，失败计入 failures
      */
     static async authAgain(
-        kv: KVNamespace,
+        store: IStore,
+        keyring: Keyring,
         code: string,
         uuid: string,
         binding: string = ""
     ): Promise<AuthResult> {
-        const key = `${this.CODE_PREFIX}${await Hash.sha1(code)}`;
-        const lock = await kvLock.acquire(kv, key);
+        const codeHash = await this.canonicalHash(store, keyring, code);
+        const key = `${this.CODE_PREFIX}${codeHash}`;
+        const token = await Lock.acquire(store.lock, key);
 
-        if (!lock) {
-            await sleep(randomInt(500, 700));
-            return [false, "", 0];
+        if (!token) {
+            return [false, "", 0, [], ""];
         }
 
         try {
+            // 激活码被吊销后，其下所有激活记录一并失效
+            if (await Revocation.isRevoked(store.kv, codeHash)) {
+                return [false, "", 0, [], ""];
+            }
+
             // 检查激活码是否被使用过
-            const usedStr = await kv.get(key);
-            if (!usedStr) {
-                await sleep(randomInt(400, 700));
-                return [false, "", 0];
+            const used = await store.getUsed(codeHash);
+            if (used === null) {
+                return [false, "", 0, [], ""];
             }
 
             // 获取认证信息
-            const ciStr = await kv.get(`${this.CODE_INFO_PREFIX}${uuid}`);
-            if (!ciStr) {
-                await sleep(randomInt(300, 700));
-                return [false, "", 0];
+            const codeInfo = await store.getActivation(uuid);
+            if (!codeInfo) {
+                return [false, "", 0, [], ""];
             }
 
-            const codeInfo = JSON.parse(ciStr) as ICodeInfo;
             const bindingHash = await Hash.sha1(binding + key);
 
             // 验证认证信息
@@ -354,18 +842,366 @@ export class Code {
                 codeInfo.binding !== bindingHash ||
                 codeInfo.expirationTime <= serverT.now()
             ) {
-                return [false, "", 0];
+                await Stats.record(store, codeInfo.productId, "failures");
+                return [false, "", 0, [], ""];
+            }
+
+            // 产品停用或归档后已有激活同样失效
+            if (codeInfo.productId && !(await Product.isActive(store, codeInfo.productId))) {
+                await Stats.record(store, codeInfo.productId, "failures");
+                return [false, "", 0, [], ""];
             }
 
             // 计算剩余次数
-            const used = parseInt(usedStr, 10);
             const remaining = codeInfo.amount - used;
 
-            return [true, codeInfo.expirationTime.toString(), remaining];
+            const features = codeInfo.features ?? [];
+            const license = await License.issue(
+                store.kv, store.lock, codeInfo.productId ?? "", bindingHash, uuid, codeInfo.expirationTime, features
+            );
+            await Stats.record(store, codeInfo.productId, "reauths");
+
+            return [true, codeInfo.expirationTime.toString(), remaining, features, license];
+        } catch {
+            return [false, "", 0, [], ""];
+        } finally {
+            await Lock.release(store.lock, key, token);
+        }
+    }
+
+    /**
+     * 解除激活（释放席位，便于迁移到新设备）
+     */
+    static async deactivate(
+        store: IStore,
+        keyring: Keyring,
+        code: string,
+        uuid: string,
+        binding: string = ""
+    ): Promise<DeactivateResult> {
+        const codeHash = await this.canonicalHash(store, keyring, code);
+        const key = `${this.CODE_PREFIX}${codeHash}`;
+        const token = await Lock.acquire(store.lock, key);
+
+        if (!token) {
+            return [false, 0, 0];
+        }
+
+        try {
+            if (await Revocation.isRevoked(store.kv, codeHash)) {
+                return [false, 0, 0];
+            }
+
+            const [used, codeInfo, transferInfo] = await Promise.all([
+                store.getUsed(codeHash),
+                store.getActivation(uuid),
+                store.getTransfer(codeHash)
+            ]);
+
+            if (used === null || !codeInfo) {
+                return [false, 0, 0];
+            }
+
+            const bindingHash = await Hash.sha1(binding + key);
+
+            // 只有持有该激活记录的设备才能解除激活
+            if (codeInfo.uuid !== uuid || codeInfo.binding !== bindingHash) {
+                return [false, 0, 0];
+            }
+
+            // 迁移次数与冷却时间限制
+            const now = serverT.now();
+            const transfer: ITransferInfo = transferInfo ?? { count: 0, lastTime: 0 };
+
+            if (
+                transfer.count >= CONFIG.MAX_TRANSFERS ||
+                (transfer.count > 0 && now - transfer.lastTime < CONFIG.TRANSFER_COOLDOWN)
+            ) {
+                return [false, codeInfo.amount - used, CONFIG.MAX_TRANSFERS - transfer.count];
+            }
+
+            const newTransfer: ITransferInfo = { count: transfer.count + 1, lastTime: now };
+
+            await store.deleteActivation(codeHash, uuid);
+            const [newUsed] = await Promise.all([
+                store.decrementUsed(codeHash),
+                store.putTransfer(codeHash, newTransfer)
+            ]);
+
+            return [true, codeInfo.amount - newUsed, CONFIG.MAX_TRANSFERS - newTransfer.count];
         } catch {
-            return [false, "", 0];
+            return [false, 0, 0];
         } finally {
-            await kvLock.release(kv, key);
+            await Lock.release(store.lock, key, token);
+        }
+    }
+
+    /**
+     * 开始试用（无需激活码）
+     * 每个设备绑定每个产品只能试用一次；为试用生成一个仅服务器登记的试用码，
+     * 客户端此后以试用码和激活 UUID 调用 authAgain 重新认证，与普通激活一致
+     */
+    static async trial(store: IStore, productId: string, binding: string): Promise<TrialResult> {
+        const product = await Product.getById(store, productId);
+        if (!product?.trial || (product.status ?? "active") !== "active") {
+            return [false, "", "", 0, [], ""];
+        }
+
+        // 试用码无法通过 decode，只能用于重新认证；其使用次数固定为 1
+        const uuid = crypto.randomUUID();
+        const code = `${this.TRIAL_CODE_PREFIX}${randomString(this.TRIAL_CODE_LENGTH)}`;
+        const codeHash = await this.codeHash(code);
+
+        const { duration, features } = product.trial;
+        const bindingHash = await Hash.sha1(binding + `${this.CODE_PREFIX}${codeHash}`);
+        const createdTime = serverT.now();
+        const expirationTime = createdTime + duration;
+
+        // 先写入激活记录再占用试用资格：写入失败不会消耗该设备唯一的试用机会；
+        // 占用失败时删除刚写入的激活记录（试用码尚未返回给任何人），使用次数在占用成功后才写入，不会留下无主记录
+        await store.putActivation(codeHash, {
+            uuid,
+            binding: bindingHash,
+            expirationTime,
+            amount: 1,
+            productId,
+            features,
+            createdTime,
+            trial: true
+        }, duration);
+
+        const claimed = await store.claimTrial(productId, await Hash.sha1(`${productId}:${binding}`), uuid);
+        if (!claimed) {
+            await store.deleteActivation(codeHash, uuid);
+            return [false, "", "", 0, [], ""];
         }
+        await store.incrementUsed(codeHash, 1);
+
+        const license = await License.issue(
+            store.kv, store.lock, productId, bindingHash, uuid, expirationTime, features
+        );
+
+        return [true, code, uuid, expirationTime, features, license];
+    }
+
+    /**
+     * 延长激活记录的有效期（管理员续期，不改变激活 UUID）
+     * 指定 uuid 时只延长该激活记录，否则延长激活码下所有未过期的激活记录；试用激活不可延长
+     * @returns 已延长的激活记录
+     */
+    static async extend(store: IStore, codeHash: string, seconds: number, uuid?: string): Promise<IActivation[]> {
+        const key = `${this.CODE_PREFIX}${codeHash}`;
+        const token = await Lock.waitAndAcquire(store.lock, key);
+
+        try {
+            const targets = (await store.listActivations(codeHash)).filter(a => !uuid || a.uuid === uuid);
+            const extended: IActivation[] = [];
+
+            for (const target of targets) {
+                const codeInfo = await store.getActivation(target.uuid);
+                if (!codeInfo || codeInfo.trial) continue;
+
+                await this.extendActivation(store, codeHash, codeInfo, seconds);
+                extended.push({
+                    ...target,
+                    expirationTime: codeInfo.expirationTime,
+                    expirationDate: serverT.toDate(codeInfo.expirationTime).toISOString()
+                });
+            }
+
+            return extended;
+        } finally {
+            await Lock.release(store.lock, key, token);
+        }
+    }
+
+    /**
+     * 使用续期码为已有激活记录延长有效期（不创建新激活）
+     * 激活记录须未过期且绑定一致；续期码须与激活记录属于同一产品；试用激活不可续期
+     */
+    static async renew(
+        store: IStore,
+        keyring: Keyring,
+        renewalCode: string,
+        code: string,
+        uuid: string,
+        binding: string = ""
+    ): Promise<AuthResult> {
+        const [[codeHash], [renewalHash, renewalTerms]] = await Promise.all([
+            this.resolve(store, keyring, code),
+            this.resolve(store, keyring, renewalCode)
+        ]);
+        const key = `${this.CODE_PREFIX}${codeHash}`;
+        const token = await Lock.acquire(store.lock, key);
+
+        if (!token) {
+            return [false, "", 0, [], ""];
+        }
+
+        try {
+            const [revoked, renewalRevoked, codeInfo] = await Promise.all([
+                Revocation.isRevoked(store.kv, codeHash),
+                Revocation.isRevoked(store.kv, renewalHash),
+                store.getActivation(uuid)
+            ]);
+
+            if (revoked || renewalRevoked || !codeInfo?.productId) {
+                return [false, "", 0, [], ""];
+            }
+
+            if (codeInfo.trial || code.startsWith(this.TRIAL_CODE_PREFIX)) {
+                return [false, "", 0, [], ""];
+            }
+
+            // 绑定哈希包含激活码哈希，同时校验了激活记录属于该激活码
+            const bindingHash = await Hash.sha1(binding + key);
+            if (codeInfo.uuid !== uuid || codeInfo.binding !== bindingHash) {
+                return [false, "", 0, [], ""];
+            }
+
+            const [valid, , duration, maxAmount, , mode] = await this.checkTerms(store, renewalTerms, codeInfo.productId);
+            if (!valid || mode !== "renewal") {
+                return [false, "", 0, [], ""];
+            }
+
+            // 原子地占用续期码的一次使用次数
+            const newUsed = await store.incrementUsed(renewalHash, maxAmount);
+            if (newUsed === -1) {
+                return [false, "", 0, [], ""];
+            }
+
+            await this.extendActivation(store, codeHash, codeInfo, duration);
+
+            const features = codeInfo.features ?? [];
+            const license = await License.issue(
+                store.kv, store.lock, codeInfo.productId, bindingHash, uuid, codeInfo.expirationTime, features
+            );
+
+            return [true, codeInfo.expirationTime.toString(), maxAmount - newUsed, features, license];
+        } catch {
+            return [false, "", 0, [], ""];
+        } finally {
+            await Lock.release(store.lock, key, token);
+        }
+    }
+
+    /**
+     * 将激活记录的过期时间顺延 seconds 秒（已过期部分从当前时间起算），并同步存储 TTL
+     */
+    private static async extendActivation(
+        store: IStore,
+        codeHash: string,
+        codeInfo: ICodeInfo,
+        seconds: number
+    ): Promise<void> {
+        const now = serverT.now();
+        codeInfo.expirationTime = Math.max(codeInfo.expirationTime, now) + seconds;
+        await store.putActivation(codeHash, codeInfo, codeInfo.expirationTime - now);
+    }
+
+    /**
+     * 签出浮动授权席位
+     * 同一绑定重复签出返回原租约；租约须在 FLOATING_LEASE_TTL 内通过心跳续期，否则席位自动释放
+     */
+    static async checkout(
+        store: IStore,
+        keyring: Keyring,
+        code: string,
+        productId: string,
+        binding: string = ""
+    ): Promise<LeaseResult> {
+        const [codeHash, terms] = await this.resolve(store, keyring, code);
+
+        if (await Revocation.isRevoked(store.kv, codeHash)) {
+            return [false, "", 0, []];
+        }
+
+        const [valid, , , seats, features, mode] = await this.checkTerms(store, terms, productId);
+        if (!valid || mode !== "floating") {
+            return [false, "", 0, []];
+        }
+
+        const seat = await Lock.seatCheckout(
+            store.lock,
+            `${this.SEAT_PREFIX}${codeHash}`,
+            await this.holder(codeHash, binding),
+            seats,
+            CONFIG.FLOATING_LEASE_TTL * 1000
+        );
+
+        return seat ? [true, seat.leaseId, CONFIG.FLOATING_LEASE_TTL, features] : [false, "", 0, []];
+    }
+
+    /**
+     * 续期浮动授权席位（心跳）
+     * 激活码过期、被吊销或产品停用后不再续期
+     */
+    static async heartbeat(
+        store: IStore,
+        keyring: Keyring,
+        code: string,
+        leaseId: string,
+        binding: string = ""
+    ): Promise<LeaseResult> {
+        const [codeHash, terms] = await this.resolve(store, keyring, code);
+
+        if (await Revocation.isRevoked(store.kv, codeHash)) {
+            return [false, "", 0, []];
+        }
+
+        if (
+            terms?.mode !== "floating" ||
+            terms.expirationTime < serverT.now() ||
+            !(await Product.isActive(store, terms.productId))
+        ) {
+            return [false, "", 0, []];
+        }
+
+        const seat = await Lock.seatRenew(
+            store.lock,
+            `${this.SEAT_PREFIX}${codeHash}`,
+            leaseId,
+            await this.holder(codeHash, binding),
+            CONFIG.FLOATING_LEASE_TTL * 1000
+        );
+
+        return seat ? [true, seat.leaseId, CONFIG.FLOATING_LEASE_TTL, terms.features] : [false, "", 0, []];
+    }
+
+    /**
+     * 归还浮动授权席位
+     */
+    static async releaseSeat(
+        store: IStore,
+        keyring: Keyring,
+        code: string,
+        leaseId: string,
+        binding: string = ""
+    ): Promise<boolean> {
+        const codeHash = await this.canonicalHash(store, keyring, code);
+        return Lock.seatRelease(
+            store.lock, `${this.SEAT_PREFIX}${codeHash}`, leaseId, await this.holder(codeHash, binding)
+        );
+    }
+
+    /**
+     * 强制释放席位（不校验持有者）
+     */
+    static async revokeSeat(store: IStore, codeHash: string, leaseId: string): Promise<boolean> {
+        return Lock.seatRelease(store.lock, `${this.SEAT_PREFIX}${codeHash}`, leaseId, null);
+    }
+
+    /**
+     * 获取浮动授权当前的席位持有者
+     */
+    static async leases(store: IStore, codeHash: string): Promise<ISeat[]> {
+        return Lock.seatList(store.lock, `${this.SEAT_PREFIX}${codeHash}`);
+    }
+
+    /**
+     * 席位持有者标识，与激活记录的绑定哈希算法一致
+     */
+    private static async holder(codeHash: string, binding: string): Promise<string> {
+        return Hash.sha1(binding + `${this.CODE_PREFIX}${codeHash}`);
     }
 }
\ No newline at end of file
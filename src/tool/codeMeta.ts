@@ -0,0 +1,86 @@
+﻿// tool/codeMeta.ts
+import type {IActivation, ICodeMeta, ICodeMetaQuery, IStore} from "../store/store";
+import {serverT} from "./tool";
+import {Code, Product} from "./code";
+import {Revocation} from "./revocation";
+import {CONFIG} from "../config";
+
+interface ICodeSearchResult extends ICodeMeta {
+    productName: string;
+    createdDate: string;
+    used: number;
+    revoked: boolean;
+    /** 未过期的激活记录 */
+    activations: IActivation[];
+}
+
+/**
+ * 激活码附加信息
+ * 生成时随激活码哈希保存客户、订单等信息，供客服反查激活码及其激活状态
+ */
+export class CodeMeta {
+    private static readonly FIELD_NAME_PATTERN = /^[\w-]{1,32}$/;
+
+    /**
+     * 校验字段名
+     */
+    static isFieldName(field: string): boolean {
+        return this.FIELD_NAME_PATTERN.test(field);
+    }
+
+    /**
+     * 校验附加信息：字段名为字母、数字、下划线或连字符，值为字符串，序列化后不超过 CODE_META_MAX_BYTES
+     */
+    static isValid(fields: unknown): fields is Record<string, string> {
+        if (typeof fields !== "object" || fields === null || Array.isArray(fields)) return false;
+
+        const valid = Object.entries(fields).every(([field, value]) =>
+            this.isFieldName(field) && typeof value === "string"
+        );
+        return valid && new TextEncoder().encode(JSON.stringify(fields)).length <= CONFIG.CODE_META_MAX_BYTES;
+    }
+
+    /**
+     * 为新生成的激活码保存附加信息（空值字段忽略，全部为空时不写入）
+     */
+    static async attach(
+        store: IStore,
+        productId: string,
+        codes: string[],
+        fields: Record<string, string>,
+        batchId?: string
+    ): Promise<void> {
+        const filled = Object.fromEntries(
+            Object.entries(fields).map(([field, value]) => [field, value.trim()]).filter(([, value]) => value)
+        );
+        if (Object.keys(filled).length === 0) return;
+
+        const createdTime = serverT.now();
+        const codeHashes = await Promise.all(codes.map(code => Code.codeHash(code)));
+        await store.putCodeMeta(codeHashes.map(codeHash => ({ codeHash, productId, fields: filled, batchId, createdTime })));
+    }
+
+    /**
+     * 按附加信息搜索激活码，并附带使用次数、吊销状态与激活记录
+     */
+    static async search(store: IStore, query: ICodeMetaQuery): Promise<ICodeSearchResult[]> {
+        const [metas, products] = await Promise.all([store.searchCodeMeta(query), Product.gets(store)]);
+
+        return Promise.all(metas.map(async meta => {
+            const [used, revoked, activations] = await Promise.all([
+                store.getUsed(meta.codeHash),
+                Revocation.isRevoked(store.kv, meta.codeHash),
+                store.listActivations(meta.codeHash)
+            ]);
+
+            return {
+                ...meta,
+                productName: products.find(p => p.id === meta.productId)?.name ?? "",
+                createdDate: serverT.toDate(meta.createdTime).toISOString(),
+                used: used ?? 0,
+                revoked,
+                activations
+            };
+        }));
+    }
+}
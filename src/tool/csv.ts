@@ -0,0 +1,21 @@
+﻿// tool/csv.ts
+
+/**
+ * CSV 生成（RFC 4180，CRLF 换行）
+ */
+export class Csv {
+    /**
+     * 将多行单元格格式化为 CSV 文本，末尾带换行
+     */
+    static format(rows: string[][]): string {
+        return rows.map(row => row.map(cell => this.cell(cell)).join(",")).join("\r\n") + "\r\n";
+    }
+
+    /**
+     * CSV 单元格转义；以 = + - @ 开头的内容加前缀，防止在表格软件中被当作公式执行
+     */
+    static cell(value: string): string {
+        const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+        return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+    }
+}
@@ -0,0 +1,41 @@
+﻿import {Base64} from "./base64";
+
+/**
+ * ECDH (P-256) 密钥协商工具类
+ * 公钥以未压缩点格式（65 字节 raw）的 Base64 传输
+ */
+export class ECDH {
+    static readonly ALGORITHM = { name: 'ECDH', namedCurve: 'P-256' } as const;
+    static readonly SHARED_SECRET_BITS = 256;
+
+    static async generateKeyPair(): Promise<CryptoKeyPair> {
+        return await crypto.subtle.generateKey(this.ALGORITHM, false, ['deriveBits']) as CryptoKeyPair;
+    }
+
+    static async exportPublicKey(key: CryptoKey): Promise<string> {
+        const exported = await crypto.subtle.exportKey('raw', key);
+        return Base64.fromBuffer(exported as ArrayBuffer);
+    }
+
+    static async importPublicKey(publicKeyB64: string): Promise<CryptoKey> {
+        return await crypto.subtle.importKey(
+            'raw',
+            Base64.toArrayBuffer(publicKeyB64),
+            this.ALGORITHM,
+            true,
+            []
+        );
+    }
+
+    /**
+     * 计算共享密钥（需再经 HKDF 派生后使用）
+     */
+    static async deriveSharedSecret(privateKey: CryptoKey, publicKey: CryptoKey): Promise<ArrayBuffer> {
+        // Workers 类型定义中该字段名为 $public，运行时实际读取 public
+        return await crypto.subtle.deriveBits(
+            { name: 'ECDH', public: publicKey } as SubtleCryptoDeriveKeyAlgorithm,
+            privateKey,
+            this.SHARED_SECRET_BITS
+        );
+    }
+}
@@ -0,0 +1,201 @@
+﻿// tool/ipList.ts
+
+/**
+ * 解析后的地址段：4 字节（IPv4）或 16 字节（IPv6）地址及前缀长度
+ */
+export interface IIpRange {
+    bytes: Uint8Array;
+    prefix: number;
+}
+
+/**
+ * IP 白名单匹配（支持 IPv4/IPv6 单个地址与 CIDR 网段）
+ * 地址按字节比较，IPv6 的不同写法（大小写、前导零、:: 压缩）视为同一地址；
+ * IPv4 映射地址（::ffff:1.2.3.4）按 IPv4 处理
+ */
+export class IpList {
+    private static readonly IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+    private static readonly HEX_GROUP_PATTERN = /^[0-9a-f]{1,4}$/i;
+    private static cached: [string, IIpRange[]] | null = null;
+
+    /**
+     * 解析以 , 或 ; 分隔的地址列表
+     * @returns [有效的地址段, 无法解析的条目]
+     */
+    static parse(list: string): [IIpRange[], string[]] {
+        const ranges: IIpRange[] = [];
+        const invalid: string[] = [];
+
+        for (const entry of list.split(/[;,]/).map(e => e.trim()).filter(e => e.length > 0)) {
+            const range = this.parseRange(entry);
+            if (range) {
+                ranges.push(range);
+            } else {
+                invalid.push(entry);
+            }
+        }
+        return [ranges, invalid];
+    }
+
+    /**
+     * 解析并缓存地址列表（配置在实例生命周期内不变），无法解析的条目只在首次解析时报错
+     */
+    static fromConfig(list: string): IIpRange[] {
+        if (this.cached?.[0] === list) return this.cached[1];
+
+        const [ranges, invalid] = this.parse(list);
+        if (invalid.length > 0) {
+            console.error(`Ignoring invalid IP list entries: ${invalid.join(", ")}`);
+        }
+        this.cached = [list, ranges];
+        return ranges;
+    }
+
+    /**
+     * 地址是否落在任一地址段内，无法解析的地址不匹配
+     */
+    static matches(ranges: IIpRange[], ip: string): boolean {
+        const bytes = this.parseAddress(ip);
+        if (!bytes) return false;
+
+        return ranges.some(range => range.bytes.length === bytes.length && this.inPrefix(range, bytes));
+    }
+
+    /**
+     * 规范化地址：IPv4 为点分十进制，IPv6 按 RFC 5952（小写、去前导零、压缩最长的连续零组）
+     * @returns 规范形式，无法解析时返回 null
+     */
+    static normalize(ip: string): string | null {
+        const bytes = this.parseAddress(ip);
+        if (!bytes) return null;
+        if (bytes.length === 4) return bytes.join(".");
+
+        const groups: number[] = [];
+        for (let i = 0; i < 16; i += 2) {
+            groups.push((bytes[i] << 8) | bytes[i + 1]);
+        }
+
+        // 找出最长的连续零组（至少 2 组，长度相同时取第一段）
+        let bestStart = -1;
+        let bestLength = 1;
+        for (let i = 0; i < 8;) {
+            if (groups[i] !== 0) {
+                i++;
+                continue;
+            }
+            let j = i;
+            while (j < 8 && groups[j] === 0) j++;
+            if (j - i > bestLength) {
+                bestStart = i;
+                bestLength = j - i;
+            }
+            i = j;
+        }
+
+        const hex = groups.map(g => g.toString(16));
+        if (bestStart < 0) return hex.join(":");
+
+        const head = hex.slice(0, bestStart).join(":");
+        const tail = hex.slice(bestStart + bestLength).join(":");
+        return `${head}::${tail}`;
+    }
+
+    private static parseRange(entry: string): IIpRange | null {
+        const [address, prefixStr, ...rest] = entry.split("/");
+        if (rest.length > 0) return null;
+
+        const bytes = this.parseAddress(address);
+        if (!bytes) return null;
+
+        const maxPrefix = bytes.length * 8;
+        if (prefixStr === undefined) return { bytes, prefix: maxPrefix };
+        if (!/^\d{1,3}$/.test(prefixStr)) return null;
+
+        // IPv4 映射地址写成 IPv6 网段时，前缀需扣除前 96 位
+        let prefix = Number(prefixStr);
+        if (bytes.length === 4 && address.includes(":")) prefix -= 96;
+
+        return prefix >= 0 && prefix <= maxPrefix ? { bytes, prefix } : null;
+    }
+
+    private static inPrefix(range: IIpRange, bytes: Uint8Array): boolean {
+        const fullBytes = Math.floor(range.prefix / 8);
+        for (let i = 0; i < fullBytes; i++) {
+            if (range.bytes[i] !== bytes[i]) return false;
+        }
+
+        const remainingBits = range.prefix % 8;
+        if (remainingBits === 0) return true;
+
+        const mask = (0xff << (8 - remainingBits)) & 0xff;
+        return (range.bytes[fullBytes] & mask) === (bytes[fullBytes] & mask);
+    }
+
+    /**
+     * 解析地址为字节，IPv4 映射的 IPv6 地址返回 4 字节
+     */
+    private static parseAddress(ip: string): Uint8Array | null {
+        const address = ip.trim().replace(/^\[(.*)]$/, "$1").replace(/%.*$/, "");
+        if (!address.includes(":")) return this.parseIPv4(address);
+
+        const bytes = this.parseIPv6(address);
+        if (!bytes) return null;
+
+        const isMapped = bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+        return isMapped ? bytes.slice(12) : bytes;
+    }
+
+    private static parseIPv4(address: string): Uint8Array | null {
+        const match = this.IPV4_PATTERN.exec(address);
+        if (!match) return null;
+
+        const octets = match.slice(1).map(Number);
+        // 拒绝前导零（避免与八进制写法混淆）
+        if (octets.some((o, i) => o > 255 || String(o) !== match[i + 1])) return null;
+        return new Uint8Array(octets);
+    }
+
+    private static parseIPv6(address: string): Uint8Array | null {
+        const halves = address.split("::");
+        if (halves.length > 2) return null;
+
+        const parseGroups = (part: string): number[] | null => {
+            if (part === "") return [];
+
+            const groups: number[] = [];
+            const items = part.split(":");
+            for (let i = 0; i < items.length; i++) {
+                const item = items[i];
+                // 末尾可嵌入 IPv4 地址（占两组）
+                if (i === items.length - 1 && item.includes(".")) {
+                    const v4 = this.parseIPv4(item);
+                    if (!v4) return null;
+                    groups.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+                } else if (this.HEX_GROUP_PATTERN.test(item)) {
+                    groups.push(parseInt(item, 16));
+                } else {
+                    return null;
+                }
+            }
+            return groups;
+        };
+
+        const head = parseGroups(halves[0]);
+        const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+        if (!head || !tail) return null;
+
+        // 嵌入的 IPv4 只能出现在地址末尾
+        if (halves.length === 2 && halves[0].includes(".")) return null;
+
+        const missing = 8 - head.length - tail.length;
+        if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+        const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+        const bytes = new Uint8Array(16);
+        groups.forEach((g, i) => {
+            bytes[i * 2] = g >> 8;
+            bytes[i * 2 + 1] = g & 0xff;
+        });
+        return bytes;
+    }
+}
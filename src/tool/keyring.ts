@@ -0,0 +1,67 @@
+﻿// tool/keyring.ts
+
+export interface IServerKey {
+    id: string;
+    secret: string;
+    current: boolean;
+}
+
+/**
+ * 激活码加密密钥环
+ * 当前密钥为 SERVER_KEY（ID 取 SERVER_KEY_ID，默认 k0），用于生成新激活码；
+ * 退役密钥配置在 SERVER_KEYS_RETIRED（格式 "id:key;id:key"），仅用于校验旧激活码
+ */
+export class Keyring {
+    static readonly DEFAULT_KEY_ID = "k0";
+    static readonly KEY_ID_PATTERN = /^[A-Za-z0-9]{1,8}$/;
+
+    private constructor(readonly current: IServerKey, private readonly retired: IServerKey[]) {
+    }
+
+    /**
+     * 从环境变量构建密钥环，配置错误时抛出异常
+     */
+    static fromEnv(env: CloudflareBindings): Keyring {
+        const currentId = env.SERVER_KEY_ID?.trim() || this.DEFAULT_KEY_ID;
+        if (!this.KEY_ID_PATTERN.test(currentId)) {
+            throw new Error(`Invalid SERVER_KEY_ID: ${currentId}`);
+        }
+
+        const current: IServerKey = { id: currentId, secret: env.SERVER_KEY, current: true };
+        const retired: IServerKey[] = [];
+
+        for (const entry of (env.SERVER_KEYS_RETIRED ?? "").split(/[;\n]/)) {
+            const trimmed = entry.trim();
+            if (!trimmed) continue;
+
+            const sep = trimmed.indexOf(":");
+            const id = sep > 0 ? trimmed.slice(0, sep).trim() : "";
+            const secret = sep > 0 ? trimmed.slice(sep + 1).trim() : "";
+
+            if (!this.KEY_ID_PATTERN.test(id) || !secret) {
+                throw new Error("Invalid SERVER_KEYS_RETIRED entry");
+            }
+            if (id === currentId || retired.some(k => k.id === id)) {
+                throw new Error(`Duplicate server key id: ${id}`);
+            }
+
+            retired.push({ id, secret, current: false });
+        }
+
+        return new Keyring(current, retired);
+    }
+
+    /**
+     * 按 ID 查找密钥
+     */
+    get(id: string): IServerKey | null {
+        return this.all().find(k => k.id === id) ?? null;
+    }
+
+    /**
+     * 所有密钥，当前密钥在前
+     */
+    all(): IServerKey[] {
+        return [this.current, ...this.retired];
+    }
+}
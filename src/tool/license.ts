@@ -0,0 +1,126 @@
+﻿// tool/license.ts
+import {CONFIG} from "../config";
+import {Base64} from "./base64";
+import {Hash} from "./hash";
+import {Lock, LockNamespace} from "./lock";
+import {serverT} from "./tool";
+
+interface ISigningKey {
+    kid: string;
+    privateJwk: JsonWebKey;
+    publicJwk: JsonWebKey;
+}
+
+/**
+ * 离线授权令牌载荷（时间均为 Unix 秒）
+ */
+export interface ILicenseClaims {
+    pid: string;     // 产品 ID
+    bnd: string;     // 绑定哈希 sha1(binding + "C:" + sha1(code))
+    uid: string;     // 激活记录 UUID
+    exp: number;     // 授权到期时间
+    ogd: number;     // 离线宽限截止时间，超过后客户端须在线重新认证
+    ent: string[];   // 功能授权
+    iat: number;     // 签发时间
+}
+
+/**
+ * 离线授权令牌
+ * 格式: base64url(header).base64url(claims).base64url(signature)，ECDSA P-256 (ES256) 签名
+ */
+export class License {
+    private static readonly SIGNING_KEY = "license_sign_key";
+    private static readonly ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+    private static readonly SIGN_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+    // 缓存变量
+    private static cachedKey: ISigningKey | null = null;
+    private static cachedPrivateKey: CryptoKey | null = null;
+
+    /**
+     * 获取签名密钥，不存在时生成（加锁保证只生成一对）
+     */
+    private static async getSigningKey(kv: KVNamespace, lock: LockNamespace): Promise<ISigningKey> {
+        if (this.cachedKey) return this.cachedKey;
+
+        let keyJson = await kv.get(this.SIGNING_KEY);
+        if (!keyJson) {
+            const token = await Lock.waitAndAcquire(lock, this.SIGNING_KEY);
+            try {
+                keyJson = await kv.get(this.SIGNING_KEY);
+                if (!keyJson) {
+                    keyJson = JSON.stringify(await this.generateSigningKey());
+                    await kv.put(this.SIGNING_KEY, keyJson);
+                }
+            } finally {
+                await Lock.release(lock, this.SIGNING_KEY, token);
+            }
+        }
+
+        this.cachedKey = JSON.parse(keyJson) as ISigningKey;
+        this.cachedPrivateKey = null;
+        return this.cachedKey;
+    }
+
+    private static async generateSigningKey(): Promise<ISigningKey> {
+        const keyPair = await crypto.subtle.generateKey(this.ALGORITHM, true, ["sign", "verify"]) as CryptoKeyPair;
+        const [privateJwk, publicJwk] = await Promise.all([
+            crypto.subtle.exportKey("jwk", keyPair.privateKey) as Promise<JsonWebKey>,
+            crypto.subtle.exportKey("jwk", keyPair.publicKey) as Promise<JsonWebKey>
+        ]);
+        const kid = (await Hash.sha256(`${publicJwk.x}:${publicJwk.y}`)).slice(0, 16);
+
+        return { kid, privateJwk, publicJwk };
+    }
+
+    /**
+     * 获取验证公钥（JWK）及其 kid
+     */
+    static async publicKey(kv: KVNamespace, lock: LockNamespace): Promise<[kid: string, jwk: JsonWebKey]> {
+        const { kid, publicJwk } = await this.getSigningKey(kv, lock);
+        return [kid, publicJwk];
+    }
+
+    /**
+     * 签发离线授权令牌
+     * @param expirationTime 授权到期时间（serverT 相对秒）
+     */
+    static async issue(
+        kv: KVNamespace,
+        lock: LockNamespace,
+        productId: string,
+        bindingHash: string,
+        uuid: string,
+        expirationTime: number,
+        features: string[]
+    ): Promise<string> {
+        const signingKey = await this.getSigningKey(kv, lock);
+        if (!this.cachedPrivateKey) {
+            this.cachedPrivateKey = await crypto.subtle.importKey(
+                "jwk", signingKey.privateJwk, this.ALGORITHM, false, ["sign"]
+            );
+        }
+
+        const now = serverT.now();
+        const toUnix = (t: number) => t + CONFIG.ServerBaseTimestamp;
+        const claims: ILicenseClaims = {
+            pid: productId,
+            bnd: bindingHash,
+            uid: uuid,
+            exp: toUnix(expirationTime),
+            ogd: toUnix(Math.min(now + CONFIG.OFFLINE_GRACE_SECONDS, expirationTime)),
+            ent: features,
+            iat: toUnix(now)
+        };
+
+        const header = Base64.fromString_Url(JSON.stringify({ alg: "ES256", typ: "LIC", kid: signingKey.kid }));
+        const payload = Base64.fromString_Url(JSON.stringify(claims));
+        const signature = await crypto.subtle.sign(
+            this.SIGN_PARAMS,
+            this.cachedPrivateKey,
+            new TextEncoder().encode(`${header}.${payload}`)
+        );
+
+        return `${header}.${payload}.${Base64.fromBuffer_Url(signature)}`;
+    }
+}
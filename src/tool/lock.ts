@@ -0,0 +1,471 @@
+﻿// tool/lock.ts
+import {DurableObject} from "cloudflare:workers";
+import {CONFIG} from "../config";
+import {sleep} from "./tool";
+
+interface ILease {
+    token: string;
+    expiresAt: number;
+}
+
+interface IRateState {
+    count: number;
+    windowStart: number;
+    strikes: number;
+    lockedUntil: number;
+    /** 此后状态不再影响限流，可被清理 */
+    staleAt: number;
+}
+
+interface IRateHit {
+    lockedUntil: number;
+    strikes: number;
+    newlyLocked: boolean;
+}
+
+/**
+ * 浮动授权席位租约
+ */
+export interface ISeat {
+    leaseId: string;
+    /** 持有者绑定哈希 */
+    holder: string;
+    checkedOutAt: number;
+    expiresAt: number;
+}
+
+/**
+ * 协调器 Durable Object
+ * 每个锁名对应一个实例，单线程执行保证租约与计数器的原子性
+ */
+export class Coordinator extends DurableObject {
+    private static readonly LEASE_KEY = "lease";
+    private static readonly COUNT_KEY = "count";
+    private static readonly VALUE_KEY = "value";
+    private static readonly VALUE_EXPIRES_KEY = "valueExpires";
+    private static readonly MAX_KEY = "max";
+    private static readonly NONCE_PREFIX = "nonce:";
+    private static readonly RATE_KEY = "rate";
+    private static readonly SEAT_PREFIX = "seat:";
+    private static readonly DELETE_BATCH = 128;
+
+    /**
+     * 获取租约，租约到期后自动失效
+     * @returns 租约令牌，已被占用时返回 null
+     */
+    async acquire(leaseMs: number): Promise<string | null> {
+        const now = Date.now();
+        const lease = await this.ctx.storage.get<ILease>(Coordinator.LEASE_KEY);
+        if (lease && lease.expiresAt > now) return null;
+
+        const token = crypto.randomUUID();
+        await this.ctx.storage.put<ILease>(Coordinator.LEASE_KEY, { token, expiresAt: now + leaseMs });
+        return token;
+    }
+
+    /**
+     * 释放租约（仅持有者可释放）
+     */
+    async release(token: string): Promise<boolean> {
+        const lease = await this.ctx.storage.get<ILease>(Coordinator.LEASE_KEY);
+        if (!lease || lease.token !== token) return false;
+
+        await this.ctx.storage.delete(Coordinator.LEASE_KEY);
+        return true;
+    }
+
+    /**
+     * 计数器加 step（不超过上限）
+     * @param limit 上限
+     * @param seed 计数器尚未初始化时的初始值
+     * @param step 增量
+     * @returns 新计数，会超过上限时返回 -1
+     */
+    async increment(limit: number, seed: number, step: number = 1): Promise<number> {
+        const count = (await this.ctx.storage.get<number>(Coordinator.COUNT_KEY)) ?? seed;
+        if (count + step > limit) return -1;
+
+        await this.ctx.storage.put(Coordinator.COUNT_KEY, count + step);
+        return count + step;
+    }
+
+    /**
+     * 计数器减一（不低于 0）
+     */
+    async decrement(seed: number): Promise<number> {
+        const count = (await this.ctx.storage.get<number>(Coordinator.COUNT_KEY)) ?? seed;
+        const newCount = Math.max(count - 1, 0);
+
+        await this.ctx.storage.put(Coordinator.COUNT_KEY, newCount);
+        return newCount;
+    }
+
+    /**
+     * 写入值（仅首次写入生效）
+     * @param expiresAt 过期时间（毫秒时间戳），到期后由闹钟删除；省略时永久保存
+     * @returns 实际保存的值
+     */
+    async claim(value: string, expiresAt?: number): Promise<string> {
+        const [existing, existingExpiresAt] = await Promise.all([
+            this.ctx.storage.get<string>(Coordinator.VALUE_KEY),
+            this.ctx.storage.get<number>(Coordinator.VALUE_EXPIRES_KEY)
+        ]);
+        if (existing !== undefined && (existingExpiresAt === undefined || existingExpiresAt > Date.now())) {
+            return existing;
+        }
+
+        await this.ctx.storage.put(Coordinator.VALUE_KEY, value);
+        if (expiresAt === undefined) {
+            await this.ctx.storage.delete(Coordinator.VALUE_EXPIRES_KEY);
+        } else {
+            await this.ctx.storage.put(Coordinator.VALUE_EXPIRES_KEY, expiresAt);
+            await this.scheduleCleanup(expiresAt);
+        }
+        return value;
+    }
+
+    /**
+     * 推进单调递增的值（仅大于已记录的值时写入）
+     * @returns 是否写入
+     */
+    async advance(value: number): Promise<boolean> {
+        const current = await this.ctx.storage.get<number>(Coordinator.MAX_KEY);
+        if (current !== undefined && value <= current) return false;
+
+        await this.ctx.storage.put(Coordinator.MAX_KEY, value);
+        return true;
+    }
+
+    /**
+     * 记录一次性随机数，ttlMs 内重复使用视为重放
+     * @returns 首次使用返回 true，重复使用返回 false
+     */
+    async useNonce(nonce: string, ttlMs: number): Promise<boolean> {
+        const key = `${Coordinator.NONCE_PREFIX}${nonce}`;
+        const now = Date.now();
+        const expiresAt = await this.ctx.storage.get<number>(key);
+        if (expiresAt !== undefined && expiresAt > now) return false;
+
+        await this.ctx.storage.put(key, now + ttlMs);
+        await this.scheduleCleanup(now + ttlMs);
+        return true;
+    }
+
+    /**
+     * 限流计数：窗口内超过 limit 次后锁定，锁定后再次触发时锁定时长翻倍
+     * 距上次锁定结束超过 lockoutMaxMs 后升级次数清零
+     */
+    async rateHit(limit: number, windowMs: number, lockoutBaseMs: number, lockoutMaxMs: number): Promise<IRateHit> {
+        const now = Date.now();
+        const state = (await this.ctx.storage.get<IRateState>(Coordinator.RATE_KEY))
+            ?? { count: 0, windowStart: now, strikes: 0, lockedUntil: 0, staleAt: 0 };
+
+        if (state.lockedUntil > now) {
+            return { lockedUntil: state.lockedUntil, strikes: state.strikes, newlyLocked: false };
+        }
+
+        if (state.strikes > 0 && now - state.lockedUntil > lockoutMaxMs) {
+            state.strikes = 0;
+        }
+        if (now - state.windowStart >= windowMs) {
+            state.count = 0;
+            state.windowStart = now;
+        }
+
+        state.count++;
+        let newlyLocked = false;
+        if (state.count > limit) {
+            state.strikes++;
+            state.lockedUntil = now + Math.min(lockoutBaseMs * 2 ** (state.strikes - 1), lockoutMaxMs);
+            state.count = 0;
+            state.windowStart = now;
+            newlyLocked = true;
+        }
+
+        state.staleAt = Math.max(state.windowStart + windowMs, state.strikes > 0 ? state.lockedUntil + lockoutMaxMs : 0);
+        await this.ctx.storage.put(Coordinator.RATE_KEY, state);
+        await this.scheduleCleanup(state.staleAt);
+
+        return { lockedUntil: newlyLocked ? state.lockedUntil : 0, strikes: state.strikes, newlyLocked };
+    }
+
+    /**
+     * 查询锁定状态（不计数）
+     * @returns 锁定截止时间（毫秒时间戳），未锁定返回 0
+     */
+    async rateCheck(): Promise<number> {
+        const state = await this.ctx.storage.get<IRateState>(Coordinator.RATE_KEY);
+        return state && state.lockedUntil > Date.now() ? state.lockedUntil : 0;
+    }
+
+    /**
+     * 清除限流状态（解除锁定并清零升级次数）
+     */
+    async rateReset(): Promise<boolean> {
+        return this.ctx.storage.delete(Coordinator.RATE_KEY);
+    }
+
+    /**
+     * 签出席位：同一持有者重复签出时续期原租约，未过期席位已满时失败
+     * @returns 租约，席位已满返回 null
+     */
+    async seatCheckout(holder: string, seats: number, ttlMs: number): Promise<ISeat | null> {
+        const now = Date.now();
+        const live = await this.liveSeats(now);
+
+        const existing = live.find(s => s.holder === holder);
+        if (!existing && live.length >= seats) return null;
+
+        const seat: ISeat = existing
+            ? { ...existing, expiresAt: now + ttlMs }
+            : { leaseId: crypto.randomUUID(), holder, checkedOutAt: now, expiresAt: now + ttlMs };
+
+        await this.ctx.storage.put(`${Coordinator.SEAT_PREFIX}${seat.leaseId}`, seat);
+        await this.scheduleCleanup(seat.expiresAt);
+        return seat;
+    }
+
+    /**
+     * 续期席位（心跳），租约已过期或持有者不符时失败
+     */
+    async seatRenew(leaseId: string, holder: string, ttlMs: number): Promise<ISeat | null> {
+        const now = Date.now();
+        const key = `${Coordinator.SEAT_PREFIX}${leaseId}`;
+        const seat = await this.ctx.storage.get<ISeat>(key);
+        if (!seat || seat.holder !== holder || seat.expiresAt <= now) return null;
+
+        seat.expiresAt = now + ttlMs;
+        await this.ctx.storage.put(key, seat);
+        return seat;
+    }
+
+    /**
+     * 归还席位，holder 为空时不校验持有者（管理员强制释放）
+     */
+    async seatRelease(leaseId: string, holder: string | null): Promise<boolean> {
+        const key = `${Coordinator.SEAT_PREFIX}${leaseId}`;
+        const seat = await this.ctx.storage.get<ISeat>(key);
+        if (!seat || seat.expiresAt <= Date.now() || (holder !== null && seat.holder !== holder)) return false;
+
+        return this.ctx.storage.delete(key);
+    }
+
+    /**
+     * 列出未过期的席位
+     */
+    async seatList(): Promise<ISeat[]> {
+        return this.liveSeats(Date.now());
+    }
+
+    /**
+     * 清理过期的随机数、席位、限流状态与写入值，仍有未过期记录时重新设置闹钟
+     */
+    async alarm(): Promise<void> {
+        const now = Date.now();
+        const nonces = await this.ctx.storage.list<number>({ prefix: Coordinator.NONCE_PREFIX });
+        const seats = await this.ctx.storage.list<ISeat>({ prefix: Coordinator.SEAT_PREFIX });
+
+        const expired = [
+            ...[...nonces].filter(([, expiresAt]) => expiresAt <= now).map(([key]) => key),
+            ...[...seats].filter(([, seat]) => seat.expiresAt <= now).map(([key]) => key)
+        ];
+        for (let i = 0; i < expired.length; i += Coordinator.DELETE_BATCH) {
+            await this.ctx.storage.delete(expired.slice(i, i + Coordinator.DELETE_BATCH));
+        }
+
+        const pending = [
+            ...[...nonces.values()].filter(expiresAt => expiresAt > now),
+            ...[...seats.values()].map(seat => seat.expiresAt).filter(expiresAt => expiresAt > now)
+        ];
+
+        const rate = await this.ctx.storage.get<IRateState>(Coordinator.RATE_KEY);
+        if (rate && rate.staleAt <= now) {
+            await this.ctx.storage.delete(Coordinator.RATE_KEY);
+        } else if (rate) {
+            pending.push(rate.staleAt);
+        }
+
+        const valueExpiresAt = await this.ctx.storage.get<number>(Coordinator.VALUE_EXPIRES_KEY);
+        if (valueExpiresAt !== undefined && valueExpiresAt <= now) {
+            await this.ctx.storage.delete([Coordinator.VALUE_KEY, Coordinator.VALUE_EXPIRES_KEY]);
+        } else if (valueExpiresAt !== undefined) {
+            pending.push(valueExpiresAt);
+        }
+
+        if (pending.length > 0) {
+            await this.ctx.storage.setAlarm(Math.min(...pending));
+        }
+    }
+
+    private async liveSeats(now: number): Promise<ISeat[]> {
+        const seats = await this.ctx.storage.list<ISeat>({ prefix: Coordinator.SEAT_PREFIX });
+        return [...seats.values()].filter(seat => seat.expiresAt > now);
+    }
+
+    /**
+     * 确保闹钟不晚于 at 触发
+     */
+    private async scheduleCleanup(at: number): Promise<void> {
+        const alarm = await this.ctx.storage.getAlarm();
+        if (alarm === null || at < alarm) {
+            await this.ctx.storage.setAlarm(at);
+        }
+    }
+}
+
+export type LockNamespace = DurableObjectNamespace<Coordinator>;
+
+/**
+ * 基于 Coordinator 的分布式锁与原子计数器
+ */
+export class Lock {
+    private static stub(ns: LockNamespace, name: string): DurableObjectStub<Coordinator> {
+        return ns.get(ns.idFromName(name));
+    }
+
+    /**
+     * 尝试获取锁
+     * @returns 租约令牌，获取失败时返回 null
+     */
+    static async acquire(ns: LockNamespace, name: string, leaseMs: number = CONFIG.LOCK_LEASE_MS): Promise<string | null> {
+        return this.stub(ns, name).acquire(leaseMs);
+    }
+
+    /**
+     * 释放锁
+     */
+    static async release(ns: LockNamespace, name: string, token: string): Promise<void> {
+        await this.stub(ns, name).release(token);
+    }
+
+    /**
+     * 阻塞式尝试获取锁，超时抛出错误
+     */
+    static async waitAndAcquire(
+        ns: LockNamespace,
+        name: string,
+        retryDelay: number = 100,
+        timeoutMs: number = CONFIG.LOCK_WAIT_TIMEOUT_MS
+    ): Promise<string> {
+        const deadline = Date.now() + timeoutMs;
+
+        while (Date.now() < deadline) {
+            const token = await this.acquire(ns, name);
+            if (token) return token;
+            await sleep(retryDelay); // 等待重试
+        }
+
+        throw new Error(`Lock wait timeout: ${name}`);
+    }
+
+    /**
+     * 原子计数加一（或加 step）
+     * @returns 新计数，已达上限时返回 -1
+     */
+    static async increment(
+        ns: LockNamespace,
+        name: string,
+        limit: number,
+        seed: number = 0,
+        step: number = 1
+    ): Promise<number> {
+        return this.stub(ns, name).increment(limit, seed, step);
+    }
+
+    /**
+     * 原子计数减一
+     */
+    static async decrement(ns: LockNamespace, name: string, seed: number = 0): Promise<number> {
+        return this.stub(ns, name).decrement(seed);
+    }
+
+    /**
+     * 原子地写入值，先写者胜出
+     * @param expiresAt 过期时间（毫秒时间戳），省略时永久保存
+     * @returns 最终生效的值（可能是其他实例先写入的）
+     */
+    static async claim(ns: LockNamespace, name: string, value: string, expiresAt?: number): Promise<string> {
+        return this.stub(ns, name).claim(value, expiresAt);
+    }
+
+    /**
+     * 原子地推进单调递增的值
+     * @returns 大于已记录的值时返回 true，否则返回 false
+     */
+    static async advance(ns: LockNamespace, name: string, value: number): Promise<boolean> {
+        return this.stub(ns, name).advance(value);
+    }
+
+    /**
+     * 原子地消费一次性随机数
+     * @returns 首次使用返回 true，重放返回 false
+     */
+    static async useNonce(ns: LockNamespace, name: string, nonce: string, ttlMs: number): Promise<boolean> {
+        return this.stub(ns, name).useNonce(nonce, ttlMs);
+    }
+
+    /**
+     * 限流计数
+     * @returns [锁定截止时间（毫秒时间戳，未锁定为 0）, 升级次数, 是否由本次计数触发锁定]
+     */
+    static async rateHit(
+        ns: LockNamespace,
+        name: string,
+        limit: number,
+        windowMs: number,
+        lockoutBaseMs: number,
+        lockoutMaxMs: number
+    ): Promise<[lockedUntil: number, strikes: number, newlyLocked: boolean]> {
+        const hit = await this.stub(ns, name).rateHit(limit, windowMs, lockoutBaseMs, lockoutMaxMs);
+        return [hit.lockedUntil, hit.strikes, hit.newlyLocked];
+    }
+
+    /**
+     * 查询锁定截止时间，未锁定返回 0
+     */
+    static async rateCheck(ns: LockNamespace, name: string): Promise<number> {
+        return this.stub(ns, name).rateCheck();
+    }
+
+    /**
+     * 清除限流状态
+     */
+    static async rateReset(ns: LockNamespace, name: string): Promise<boolean> {
+        return this.stub(ns, name).rateReset();
+    }
+
+    /**
+     * 签出浮动授权席位
+     * @returns 租约，席位已满返回 null
+     */
+    static async seatCheckout(
+        ns: LockNamespace,
+        name: string,
+        holder: string,
+        seats: number,
+        ttlMs: number
+    ): Promise<ISeat | null> {
+        return this.stub(ns, name).seatCheckout(holder, seats, ttlMs);
+    }
+
+    /**
+     * 续期席位租约
+     */
+    static async seatRenew(ns: LockNamespace, name: string, leaseId: string, holder: string, ttlMs: number): Promise<ISeat | null> {
+        return this.stub(ns, name).seatRenew(leaseId, holder, ttlMs);
+    }
+
+    /**
+     * 归还席位，holder 为 null 时强制释放
+     */
+    static async seatRelease(ns: LockNamespace, name: string, leaseId: string, holder: string | null): Promise<boolean> {
+        return this.stub(ns, name).seatRelease(leaseId, holder);
+    }
+
+    /**
+     * 列出当前席位持有者
+     */
+    static async seatList(ns: LockNamespace, name: string): Promise<ISeat[]> {
+        return this.stub(ns, name).seatList();
+    }
+}
@@ -0,0 +1,87 @@
+﻿// tool/rateLimit.ts
+import {CONFIG} from "../config";
+import {Lock, LockNamespace} from "./lock";
+
+export type RateRule = keyof typeof CONFIG.RATE_LIMITS;
+
+export const RATE_RULES = Object.keys(CONFIG.RATE_LIMITS) as RateRule[];
+
+export interface ILockout {
+    rule: RateRule;
+    id: string;
+    lockedUntil: number;
+    strikes: number;
+}
+
+/**
+ * 基于 Coordinator 的限流与锁定
+ * 计数与锁定状态存于 Coordinator；锁定记录另行镜像到 KV（L: 前缀），供管理后台列出
+ */
+export class RateLimit {
+    private static readonly LOCKOUT_PREFIX = "L:";
+    private static readonly MIN_KV_TTL = 60;
+
+    private static lockName(rule: RateRule, id: string): string {
+        return `RL:${rule}:${id}`;
+    }
+
+    /**
+     * 计数一次
+     * @returns 锁定截止时间（毫秒时间戳），未锁定返回 0
+     */
+    static async hit(kv: KVNamespace, ns: LockNamespace, rule: RateRule, id: string): Promise<number> {
+        const { limit, windowMs } = CONFIG.RATE_LIMITS[rule];
+        const [lockedUntil, strikes, newlyLocked] = await Lock.rateHit(
+            ns, this.lockName(rule, id), limit, windowMs, CONFIG.RATE_LOCKOUT_BASE_MS, CONFIG.RATE_LOCKOUT_MAX_MS
+        );
+
+        if (newlyLocked) {
+            const ttl = Math.max(Math.ceil((lockedUntil - Date.now()) / 1000), this.MIN_KV_TTL);
+            const lockout: ILockout = { rule, id, lockedUntil, strikes };
+            await kv.put(`${this.LOCKOUT_PREFIX}${rule}:${id}`, "", { expirationTtl: ttl, metadata: lockout });
+        }
+
+        return lockedUntil;
+    }
+
+    /**
+     * 查询是否处于锁定状态（不计数）
+     * @returns 锁定截止时间（毫秒时间戳），未锁定返回 0
+     */
+    static async check(ns: LockNamespace, rule: RateRule, id: string): Promise<number> {
+        return Lock.rateCheck(ns, this.lockName(rule, id));
+    }
+
+    /**
+     * 列出当前仍在锁定中的记录
+     */
+    static async list(kv: KVNamespace): Promise<ILockout[]> {
+        const lockouts: ILockout[] = [];
+        const now = Date.now();
+        let cursor: string | undefined;
+
+        do {
+            const page = await kv.list<ILockout>({ prefix: this.LOCKOUT_PREFIX, cursor });
+            for (const key of page.keys) {
+                if (key.metadata && key.metadata.lockedUntil > now) {
+                    lockouts.push(key.metadata);
+                }
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return lockouts;
+    }
+
+    /**
+     * 解除锁定并清零计数
+     * @returns 是否存在限流状态
+     */
+    static async clear(kv: KVNamespace, ns: LockNamespace, rule: RateRule, id: string): Promise<boolean> {
+        const [existed] = await Promise.all([
+            Lock.rateReset(ns, this.lockName(rule, id)),
+            kv.delete(`${this.LOCKOUT_PREFIX}${rule}:${id}`)
+        ]);
+        return existed;
+    }
+}
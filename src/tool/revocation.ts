@@ -0,0 +1,96 @@
+﻿// tool/revocation.ts
+import {serverT} from "./tool";
+import {CONFIG} from "../config";
+
+export interface IRevocation {
+    codeHash: string;
+    reason: string;
+    revokedAt: number;
+}
+
+/**
+ * 激活码吊销列表
+ * 以激活码哈希为键，吊销后该码既不能再激活，已有的激活记录也会在重新认证时失效
+ */
+export class Revocation {
+    private static readonly REVOKE_PREFIX = "R:";
+    private static readonly MAX_REASON_LENGTH = 200;
+
+    /**
+     * 吊销激活码
+     */
+    static async revoke(kv: KVNamespace, codeHash: string, reason: string = ""): Promise<IRevocation> {
+        const record: IRevocation = {
+            codeHash,
+            reason: reason.trim().slice(0, this.MAX_REASON_LENGTH),
+            revokedAt: serverT.now()
+        };
+
+        await kv.put(`${this.REVOKE_PREFIX}${codeHash}`, JSON.stringify(record), {
+            metadata: record
+        });
+
+        return record;
+    }
+
+    /**
+     * 批量吊销激活码（分块并发写入）
+     */
+    static async revokeMany(kv: KVNamespace, codeHashes: string[], reason: string = ""): Promise<void> {
+        for (let i = 0; i < codeHashes.length; i += CONFIG.BATCH_WRITE_CONCURRENCY) {
+            await Promise.all(
+                codeHashes.slice(i, i + CONFIG.BATCH_WRITE_CONCURRENCY).map(codeHash => this.revoke(kv, codeHash, reason))
+            );
+        }
+    }
+
+    /**
+     * 撤销吊销
+     */
+    static async unrevoke(kv: KVNamespace, codeHash: string): Promise<boolean> {
+        const key = `${this.REVOKE_PREFIX}${codeHash}`;
+        if (!(await kv.get(key))) return false;
+
+        await kv.delete(key);
+        return true;
+    }
+
+    /**
+     * 获取吊销记录
+     */
+    static async get(kv: KVNamespace, codeHash: string): Promise<IRevocation | null> {
+        const recordJson = await kv.get(`${this.REVOKE_PREFIX}${codeHash}`);
+        if (!recordJson) return null;
+
+        try {
+            return JSON.parse(recordJson) as IRevocation;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * 判断激活码是否已被吊销
+     */
+    static async isRevoked(kv: KVNamespace, codeHash: string): Promise<boolean> {
+        return (await kv.get(`${this.REVOKE_PREFIX}${codeHash}`)) !== null;
+    }
+
+    /**
+     * 获取所有吊销记录
+     */
+    static async list(kv: KVNamespace): Promise<IRevocation[]> {
+        const records: IRevocation[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await kv.list<IRevocation>({ prefix: this.REVOKE_PREFIX, cursor });
+            for (const key of page.keys) {
+                if (key.metadata) records.push(key.metadata);
+            }
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+
+        return records;
+    }
+}
@@ -0,0 +1,76 @@
+﻿// tool/shortCode.ts
+
+/**
+ * 短激活码：Crockford Base32，分组格式 XXXXX-XXXXX-XXXXX-XXXXX
+ * 前 19 位随机（约 95 位熵），末位为模 37 校验位（可能为 * ~ $ = U）；条款不在码内，由服务器按激活码哈希保存
+ */
+export class ShortCode {
+    private static readonly ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+    /** 校验位字母表：Crockford 规定的模 37 校验符号（数据字母表之后追加 * ~ $ = U） */
+    private static readonly CHECK_ALPHABET = `${ShortCode.ALPHABET}*~$=U`;
+    private static readonly LENGTH = 20;
+    private static readonly GROUP_SIZE = 5;
+    private static readonly CHECK_MODULUS = 37;
+    /** 易混淆字符按 Crockford 规则归一 */
+    private static readonly ALIASES: Record<string, string> = { O: "0", I: "1", L: "1" };
+    private static readonly SHAPE = /^[0-9A-Za-z]{19}[0-9A-Za-z*~$=]$/;
+
+    /**
+     * 生成短激活码
+     */
+    static generate(): string {
+        const bytes = crypto.getRandomValues(new Uint8Array(this.LENGTH - 1));
+        // 256 可被 32 整除，直接取低 5 位即为均匀分布
+        const body = Array.from(bytes, b => this.ALPHABET[b & 31]).join("");
+        return this.group(body + this.checkChar(body));
+    }
+
+    /**
+     * 去掉分隔符、统一大小写后是否具有短激活码的形状（不校验校验位）
+     */
+    static looksShort(input: string): boolean {
+        return this.SHAPE.test(this.strip(input));
+    }
+
+    /**
+     * 规范化用户输入（大小写、分隔符、易混淆字符），校验位错误返回 null
+     */
+    static normalize(input: string): string | null {
+        const chars = this.strip(input).toUpperCase().replace(/[OIL]/g, c => this.ALIASES[c]);
+        const body = chars.slice(0, -1);
+        const check = chars.slice(-1);
+        if (
+            chars.length !== this.LENGTH ||
+            [...body].some(c => !this.ALPHABET.includes(c)) ||
+            !this.CHECK_ALPHABET.includes(check)
+        ) {
+            return null;
+        }
+
+        return check === this.checkChar(body) ? this.group(chars) : null;
+    }
+
+    /**
+     * 加权校验位（模 37）：37 为素数且大于字母表大小，权重 1..19 互不相同，
+     * 因此任意单个字符错误与相邻字符对调都会改变校验位
+     */
+    private static checkChar(body: string): string {
+        let sum = 0;
+        for (let i = 0; i < body.length; i++) {
+            sum += (i + 1) * this.ALPHABET.indexOf(body[i]);
+        }
+        return this.CHECK_ALPHABET[sum % this.CHECK_MODULUS];
+    }
+
+    private static strip(input: string): string {
+        return input.replace(/[\s-]/g, "");
+    }
+
+    private static group(chars: string): string {
+        const groups: string[] = [];
+        for (let i = 0; i < chars.length; i += this.GROUP_SIZE) {
+            groups.push(chars.slice(i, i + this.GROUP_SIZE));
+        }
+        return groups.join("-");
+    }
+}
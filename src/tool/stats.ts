@@ -0,0 +1,107 @@
+﻿// tool/stats.ts
+import type {IDailyStats, IProduct, IStore, ProductStatus, StatsField} from "../store/store";
+
+export const STATS_FIELDS: readonly StatsField[] = ["issued", "redeemed", "reauths", "failures"];
+
+type StatsCounts = Record<StatsField, number>;
+
+interface IProductStats {
+    productId: string;
+    productName: string;
+    status: ProductStatus;
+    /** 当前未过期的激活记录数 */
+    active: number;
+    totals: StatsCounts;
+    daily: (StatsCounts & { day: string })[];
+}
+
+/**
+ * 产品使用统计（按 UTC 日期汇总）
+ * 写入失败只记录错误日志，不影响业务流程
+ */
+export class Stats {
+    private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+    private static readonly DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+    /**
+     * 获取 UTC 日期 YYYY-MM-DD
+     */
+    static day(date: Date = new Date()): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    /**
+     * 校验日期格式 YYYY-MM-DD
+     */
+    static isDay(value: string): boolean {
+        return this.DAY_PATTERN.test(value) && !isNaN(Date.parse(value)) && this.day(new Date(value)) === value;
+    }
+
+    /**
+     * 日期加减天数
+     */
+    static addDays(day: string, days: number): string {
+        return this.day(new Date(Date.parse(day) + days * this.DAY_MS));
+    }
+
+    /**
+     * 两个日期之间的天数（含首尾）
+     */
+    static span(from: string, to: string): number {
+        return Math.round((Date.parse(to) - Date.parse(from)) / this.DAY_MS) + 1;
+    }
+
+    /**
+     * 产品当日的某项统计加一（批量生成时加 step）
+     */
+    static async record(
+        store: IStore,
+        productId: string | undefined,
+        field: StatsField,
+        step: number = 1
+    ): Promise<void> {
+        if (!productId) return;
+
+        try {
+            await store.incrementStats(productId, this.day(), field, step);
+        } catch (error) {
+            console.error("Stats write failed:", error, productId, field);
+        }
+    }
+
+    /**
+     * 汇总日期范围内各产品的统计，没有记录的日期补零
+     */
+    static async report(store: IStore, products: IProduct[], from: string, to: string): Promise<IProductStats[]> {
+        const [rows, active] = await Promise.all([
+            store.queryStats({ from, to, productId: products.length === 1 ? products[0].id : undefined }),
+            store.countActivationsByProduct()
+        ]);
+
+        const days = Array.from({ length: this.span(from, to) }, (_, i) => this.addDays(from, i));
+
+        return products.map(p => {
+            const byDay = new Map<string, IDailyStats>(
+                rows.filter(r => r.productId === p.id).map(r => [r.day, r])
+            );
+
+            const daily = days.map(day => {
+                const row = byDay.get(day);
+                return { day, ...this.counts(field => row?.[field] ?? 0) };
+            });
+
+            return {
+                productId: p.id,
+                productName: p.name,
+                status: p.status ?? "active",
+                active: active[p.id] ?? 0,
+                totals: this.counts(field => daily.reduce((sum, d) => sum + d[field], 0)),
+                daily
+            };
+        });
+    }
+
+    private static counts(value: (field: StatsField) => number): StatsCounts {
+        return Object.fromEntries(STATS_FIELDS.map(f => [f, value(f)])) as StatsCounts;
+    }
+}
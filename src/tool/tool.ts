@@ -1,5 +1,7 @@
 ﻿import {CONFIG} from "../config";
 import {RSA} from "./rsa";
+import {Lock, LockNamespace} from "./lock";
+import {IpList} from "./ipList";
 
 export function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
@@ -8,37 +10,6 @@ export function randomInt(min: number, max: number): number {
     return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
-export class kvLock {
-    /**
-     * 尝试获取锁
-     * @param kv KVNamespace
-     * @param name 锁名
-     * @returns 是否成功获得锁
-     */
-    static async acquire(kv: KVNamespace, name: string): Promise<boolean> {
-        const key = `L:${name}`;
-        if (await kv.get(key) === "true") return false;
-        await kv.put(key, "true");
-        return true;
-
-    }
-    /**
-     * 释放锁
-     */
-    static async release(kv: KVNamespace, name: string) {
-        const key = `L:${name}`;
-        await kv.delete(key);
-    }
-    /**
-     * 阻塞式尝试获取锁
-     */
-    static async waitAndAcquire(kv: KVNamespace, name: string, retryDelay: number = 100): Promise<void> {
-        while (!(await kvLock.acquire(kv, name))) {
-            await new Promise(res => setTimeout(res, retryDelay)); // 等待重试
-        }
-    }
-}
-
 export function randomString(length: number): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
     const charsLen = chars.length;
@@ -62,32 +33,65 @@ export function generateUUID(): string {
 }
 
 /**
- * 确保 RSA 密钥对存在于 KV 存储中。
- * 如果不存在（如首次运行或密钥过期），则生成新的密钥对并保存。
- * 这些密钥用于加密客户端和服务器之间的通信。
+ * 传输用 RSA 密钥对
  */
-export async function ensureRSAKeys(kv: KVNamespace): Promise<void> {
-    const existingPubKey = await kv.get('rsa_pub_key_pem');
-    // 如果公钥不存在，说明需要重新生成密钥对
-    if (!existingPubKey) {
-        const keyPair = await RSA.generateRSAKeyPair();
-        const pubKeyPem = await RSA.exportPublicKeyPEM(keyPair.publicKey);
-        const priKeyPem = await RSA.exportPrivateKeyPEM(keyPair.privateKey);
+export interface IRSAKey {
+    kid: string;
+    pubPem: string;
+    priPem: string;
+}
 
-        await kv.put('rsa_pub_key_pem', pubKeyPem, { expirationTtl: CONFIG.RSA_KEY_UPDATE_TIME });
-        await kv.put('rsa_pri_key_pem', priKeyPem, { expirationTtl: CONFIG.RSA_KEY_UPDATE_TIME });
-    }
+const RSA_KEY_PREFIX = 'rsa_key:';
+const RSA_KID_PATTERN = /^r\d+$/;
+
+/**
+ * 获取当前代次的 RSA 密钥对，不存在时生成。
+ * 密钥按 RSA_KEY_UPDATE_TIME 划分代次，每代在到期后再保留 RSA_KEY_GRACE_PERIOD，
+ * 以便刚完成密钥交换的客户端在轮换后仍可使用上一代密钥。
+ * 多个实例可能同时生成候选密钥对，由 Coordinator 决定每代唯一生效的一对。
+ */
+export async function ensureRSAKeys(kv: KVNamespace, lock: LockNamespace): Promise<IRSAKey> {
+    const generation = Math.floor(Date.now() / 1000 / CONFIG.RSA_KEY_UPDATE_TIME);
+    const kid = `r${generation}`;
+
+    const existing = await getRSAKey(kv, kid);
+    if (existing) return existing;
+
+    const keyPair = await RSA.generateRSAKeyPair();
+    const candidate: IRSAKey = {
+        kid,
+        pubPem: await RSA.exportPublicKeyPEM(keyPair.publicKey),
+        priPem: await RSA.exportPrivateKeyPEM(keyPair.privateKey)
+    };
+
+    // 私钥在协调器中与 KV 副本同时过期，不随代次累积
+    const expiration = (generation + 1) * CONFIG.RSA_KEY_UPDATE_TIME + CONFIG.RSA_KEY_GRACE_PERIOD;
+    const keyJson = await Lock.claim(lock, `${RSA_KEY_PREFIX}${kid}`, JSON.stringify(candidate), expiration * 1000);
+    await kv.put(`${RSA_KEY_PREFIX}${kid}`, keyJson, { expiration });
+
+    return JSON.parse(keyJson) as IRSAKey;
+}
+
+/**
+ * 按密钥 ID 获取 RSA 密钥对，已过期或不存在时返回 null
+ */
+export async function getRSAKey(kv: KVNamespace, kid: string): Promise<IRSAKey | null> {
+    if (!RSA_KID_PATTERN.test(kid)) return null;
+
+    const keyJson = await kv.get(`${RSA_KEY_PREFIX}${kid}`);
+    return keyJson ? JSON.parse(keyJson) as IRSAKey : null;
 }
 
 /**
  * 获取客户端真实 IP 地址
- * 兼容 Cloudflare Workers 标准头和常见的代理头
+ * 兼容 Cloudflare Workers 标准头和常见的代理头；返回规范形式，使同一 IPv6 地址的不同写法在限流与审计中一致
  */
 export function getClientIP(request: Request): string {
-    return request.headers.get('CF-Connecting-IP') || // Cloudflare 提供的最准确 IP
+    const ip = request.headers.get('CF-Connecting-IP') || // Cloudflare 提供的最准确 IP
         request.headers.get('X-Real-IP') ||
         request.headers.get('X-Forwarded-For')?.split(',')[0]?.trim() ||
         '0.0.0.0';
+    return IpList.normalize(ip) ?? ip;
 }
 
 export const serverT = {
@@ -102,23 +106,3 @@ export const serverT = {
         return Math.floor(date.getTime() / 1000) - CONFIG.ServerBaseTimestamp;
     }
 };
-
-export async function authSuperAdmin(
-    request: Request,
-    SUPER_ADMIN_KEY: string,
-    adminIp: string
-): Promise<boolean> {
-    // 1. 验证 Admin Key (通过自定义头 X-Authorization-A 传递)
-    const xAuth = request.headers.get('X-Authorization-A') || '';
-    if (!xAuth || xAuth !== SUPER_ADMIN_KEY) {
-        console.log('Admin auth failed: Invalid key');
-        return false;
-    }
-
-    const clientIp = getClientIP(request);
-    // 3. IP 白名单验证
-    // adminIp 可以是单个 IP 或逗号分隔的多个 IP (如 "1.1.1.1, 2.2.2.2")
-    const allowedIPs = adminIp.split(',').map(ip => ip.trim());
-    return allowedIPs.includes(clientIp);
-}
-
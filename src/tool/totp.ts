@@ -0,0 +1,118 @@
+﻿// tool/totp.ts
+import {CONFIG} from "../config";
+
+/**
+ * TOTP 一次性验证码（RFC 6238，HMAC-SHA1）
+ * 共享密钥以 RFC 4648 Base32 编码，兼容常见的身份验证器应用
+ */
+export class Totp {
+    private static readonly BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+    private static readonly SECRET_BYTES = 20;
+    private static readonly CODE_PATTERN = new RegExp(`^\\d{${CONFIG.TOTP_DIGITS}}$`);
+
+    /**
+     * 生成新的共享密钥（Base32，160 位）
+     */
+    static generateSecret(): string {
+        return this.base32Encode(crypto.getRandomValues(new Uint8Array(this.SECRET_BYTES)));
+    }
+
+    /**
+     * 生成供身份验证器扫码或导入的 otpauth URI
+     */
+    static uri(secret: string, account: string): string {
+        const issuer = encodeURIComponent(CONFIG.TOTP_ISSUER);
+        const params = new URLSearchParams({
+            secret,
+            issuer: CONFIG.TOTP_ISSUER,
+            algorithm: "SHA1",
+            digits: String(CONFIG.TOTP_DIGITS),
+            period: String(CONFIG.TOTP_STEP)
+        });
+        return `otpauth://totp/${issuer}:${encodeURIComponent(account)}?${params.toString()}`;
+    }
+
+    /**
+     * 当前时间步
+     */
+    static step(nowMs: number = Date.now()): number {
+        return Math.floor(nowMs / 1000 / CONFIG.TOTP_STEP);
+    }
+
+    /**
+     * 计算指定时间步的验证码
+     */
+    static async generate(secret: string, step: number): Promise<string> {
+        const key = await crypto.subtle.importKey(
+            "raw",
+            this.base32Decode(secret),
+            { name: "HMAC", hash: "SHA-1" },
+            false,
+            ["sign"]
+        );
+
+        const counter = new DataView(new ArrayBuffer(8));
+        counter.setUint32(0, Math.floor(step / 2 ** 32));
+        counter.setUint32(4, step >>> 0);
+
+        const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counter.buffer));
+        const offset = mac[mac.length - 1] & 0x0f;
+        const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+
+        return String(binary % 10 ** CONFIG.TOTP_DIGITS).padStart(CONFIG.TOTP_DIGITS, "0");
+    }
+
+    /**
+     * 校验验证码，允许前后 CONFIG.TOTP_WINDOW 个时间步的时钟偏差
+     * 不接受不晚于 lastStep 的时间步，防止同一验证码被重复使用
+     * @returns 匹配的时间步，校验失败返回 -1
+     */
+    static async verify(secret: string, code: string, lastStep: number): Promise<number> {
+        if (!this.CODE_PATTERN.test(code)) return -1;
+
+        const current = this.step();
+        for (let step = current - CONFIG.TOTP_WINDOW; step <= current + CONFIG.TOTP_WINDOW; step++) {
+            if (step <= lastStep) continue;
+            if (await this.generate(secret, step) === code) return step;
+        }
+        return -1;
+    }
+
+    private static base32Encode(bytes: Uint8Array): string {
+        let bits = 0;
+        let value = 0;
+        let output = "";
+
+        for (const byte of bytes) {
+            value = (value << 8) | byte;
+            bits += 8;
+            while (bits >= 5) {
+                output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+                bits -= 5;
+            }
+        }
+        if (bits > 0) {
+            output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+        }
+        return output;
+    }
+
+    private static base32Decode(input: string): Uint8Array {
+        const clean = input.toUpperCase().replace(/=+$/, "");
+        const bytes: number[] = [];
+        let bits = 0;
+        let value = 0;
+
+        for (const char of clean) {
+            const index = this.BASE32_ALPHABET.indexOf(char);
+            if (index < 0) throw new Error("Invalid base32 secret");
+            value = (value << 5) | index;
+            bits += 5;
+            if (bits >= 8) {
+                bytes.push((value >>> (bits - 8)) & 0xff);
+                bits -= 8;
+            }
+        }
+        return new Uint8Array(bytes);
+    }
+}
@@ -0,0 +1,66 @@
+﻿/// <reference types="@cloudflare/vitest-pool-workers" />
+import {env} from "cloudflare:test";
+import {describe, expect, it} from "vitest";
+import {AdminKey} from "../src/tool/adminKey";
+import {Hash} from "../src/tool/hash";
+import {KvStore} from "../src/store/kv";
+import {CONFIG} from "../src/config";
+
+const ROOT_KEY = "root-key-for-tests";
+
+function kvStore(): KvStore {
+    return new KvStore(env.AUTH_KV, env.COORDINATOR);
+}
+
+describe("AdminKey.authenticate", () => {
+    it("accepts the root key and its hash", async () => {
+        const store = kvStore();
+        expect(await AdminKey.authenticate(store, ROOT_KEY, ROOT_KEY)).toEqual(AdminKey.ROOT);
+        expect(await AdminKey.authenticateHash(store, await Hash.sha256(ROOT_KEY), ROOT_KEY)).toEqual(AdminKey.ROOT);
+    });
+
+    it("rejects other keys and an unset root key", async () => {
+        const store = kvStore();
+        expect(await AdminKey.authenticate(store, ROOT_KEY + "x", ROOT_KEY)).toBeNull();
+        expect(await AdminKey.authenticate(store, "", ROOT_KEY)).toBeNull();
+        expect(await AdminKey.authenticateHash(store, "short", ROOT_KEY)).toBeNull();
+        expect(await AdminKey.authenticateHash(store, await Hash.sha256(""), "")).toBeNull();
+    });
+
+    it("accepts issued keys until they are revoked", async () => {
+        const store = kvStore();
+        const [success, admin, key] = await AdminKey.create(store, "ops", ["read"], ["p1"], "admin");
+        expect(success).toBe(true);
+        expect(key.startsWith("cak_")).toBe(true);
+        expect(await AdminKey.authenticate(store, key, ROOT_KEY)).toEqual(admin);
+
+        await AdminKey.revoke(store, admin!.id);
+        expect(await AdminKey.authenticate(store, key, ROOT_KEY)).toBeNull();
+    });
+});
+
+describe("AdminKey.create", () => {
+    it("issues one key per name under concurrent requests", async () => {
+        const store = kvStore();
+        const results = await Promise.all(
+            Array.from({ length: 5 }, () => AdminKey.create(store, "dup", ["read"], undefined, "admin"))
+        );
+
+        expect(results.filter(([success]) => success)).toHaveLength(1);
+        expect((await AdminKey.list(store)).filter(a => a.name === "dup")).toHaveLength(1);
+    });
+});
+
+describe("KvStore.putAdmin", () => {
+    it("fits the largest allowed admin into KV metadata", async () => {
+        const store = kvStore();
+        const name = "n".repeat(32);
+        const products = Array.from({ length: CONFIG.ADMIN_MAX_PRODUCTS }, (_, i) => `p${String(i).padStart(6, "0")}`);
+        const [success, admin] = await AdminKey.create(store, name, ["read", "generate", "manage", "admin"], products, "c".repeat(32));
+        expect(success).toBe(true);
+
+        const [revoked] = await AdminKey.revoke(store, admin!.id);
+        expect(revoked).toBe(true);
+        expect((await AdminKey.list(store)).find(a => a.name === name)?.products).toHaveLength(CONFIG.ADMIN_MAX_PRODUCTS);
+    });
+});
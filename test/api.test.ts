@@ -0,0 +1,109 @@
+﻿/// <reference types="@cloudflare/vitest-pool-workers" />
+import {env, SELF} from "cloudflare:test";
+import {describe, expect, it} from "vitest";
+import {Product} from "../src/tool/code";
+import {Base64} from "../src/tool/base64";
+import {AES} from "../src/tool/aes";
+import {ECDH} from "../src/tool/ecdh";
+import {createStore} from "../src/store/store";
+
+type ApiResponse = { status: string; message?: string; data?: string };
+
+async function post(path: string, body: unknown, ip: string): Promise<ApiResponse> {
+    const response = await SELF.fetch(`http://localhost/api${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "CF-Connecting-IP": ip },
+        body: JSON.stringify(body)
+    });
+    return response.json();
+}
+
+/** v1 客户端：交换 RSA 公钥后逐字段加密 */
+async function sessionV1(ip: string) {
+    const pair = await crypto.subtle.generateKey(
+        { name: "RSA-OAEP", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+        true,
+        ["encrypt", "decrypt"]
+    ) as CryptoKeyPair;
+    const spki = Base64.fromBuffer(await crypto.subtle.exportKey("spki", pair.publicKey) as ArrayBuffer);
+    const pem = `-----BEGIN PUBLIC KEY-----\n${spki.match(/.{1,64}/g)!.join("\n")}\n-----END PUBLIC KEY-----`;
+
+    const exchange = await post("/pub/key/exc", { client_pub_key_pem: pem }, ip) as ApiResponse & {
+        client_uuid: string;
+        server_pub_key_pem: string;
+    };
+    const der = Base64.toArrayBuffer(exchange.server_pub_key_pem.replace(/-----[^-]+-----|\s/g, ""));
+    const serverKey = await crypto.subtle.importKey("spki", der, { name: "RSA-OAEP", hash: "SHA-256" }, false, ["encrypt"]);
+
+    return {
+        async seal(fields: Record<string, string>): Promise<Record<string, string>> {
+            const body: Record<string, string> = { client_uuid: exchange.client_uuid };
+            for (const [name, value] of Object.entries(fields)) {
+                const ciphertext = await crypto.subtle.encrypt({ name: "RSA-OAEP" }, serverKey, new TextEncoder().encode(value));
+                body[name] = Base64.fromBuffer(ciphertext);
+            }
+            return body;
+        }
+    };
+}
+
+/** v2 客户端：ECDH 协商会话密钥后整体加密，每个请求带新的 data_n */
+async function sessionV2(ip: string) {
+    const pair = await ECDH.generateKeyPair();
+    const publicKey = await ECDH.exportPublicKey(pair.publicKey);
+    const exchange = await post("/pub/key/exc", { client_ecdh_pub_key: publicKey }, ip) as ApiResponse & {
+        client_uuid: string;
+        server_ecdh_pub_key: string;
+    };
+
+    const serverKey = await ECDH.importPublicKey(exchange.server_ecdh_pub_key);
+    const shared = await ECDH.deriveSharedSecret(pair.privateKey, serverKey);
+    const sessionKey = await AES.deriveKey(shared, exchange.client_uuid, AES.CRYPTO_CONFIG.SESSION_HKDF_INFO);
+
+    return {
+        async seal(fields: Record<string, string>): Promise<Record<string, string>> {
+            const plaintext = JSON.stringify({ data_n: crypto.randomUUID(), ...fields });
+            return { client_uuid: exchange.client_uuid, data: await AES.encryptToBase64(plaintext, sessionKey) };
+        }
+    };
+}
+
+async function trialProduct(): Promise<string> {
+    const store = createStore(env);
+    const [created, productId] = await Product.set(store, `trial-${crypto.randomUUID()}`);
+    expect(created).toBe(true);
+    expect(await Product.setTrial(store, productId, { duration: 3600, features: [] })).toBe(true);
+    return productId;
+}
+
+describe("v1 session nonce", () => {
+    it("accepts several trial requests in one session", async () => {
+        const productId = await trialProduct();
+        const session = await sessionV1("10.1.0.1");
+
+        for (const binding of ["device-a", "device-b"]) {
+            const response = await post("/auth/trial", await session.seal({ data_i: productId, data_b: binding }), "10.1.0.1");
+            expect(response.status).toBe("ok");
+        }
+    });
+});
+
+describe("session replay protection", () => {
+    for (const [version, open] of [["v1", sessionV1], ["v2", sessionV2]] as const) {
+        it(`rejects a replayed ${version} request and accepts a fresh one`, async () => {
+            const productId = await trialProduct();
+            const ip = version === "v1" ? "10.1.1.1" : "10.1.1.2";
+            const session = await open(ip);
+
+            const body = await session.seal({ data_i: productId, data_b: "device-a" });
+            expect((await post("/auth/trial", body, ip)).status).toBe("ok");
+
+            const replayed = await post("/auth/trial", body, ip);
+            expect(replayed.status).toBe("error");
+            expect(replayed.message).toBe("Request already processed");
+
+            const fresh = await post("/auth/trial", await session.seal({ data_i: productId, data_b: "device-b" }), ip);
+            expect(fresh.status).toBe("ok");
+        });
+    }
+});
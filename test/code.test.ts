@@ -0,0 +1,103 @@
+﻿/// <reference types="@cloudflare/vitest-pool-workers" />
+import {env} from "cloudflare:test";
+import {describe, expect, it} from "vitest";
+import {Code, Product} from "../src/tool/code";
+import {Keyring} from "../src/tool/keyring";
+import {Revocation} from "../src/tool/revocation";
+import {KvStore} from "../src/store/kv";
+
+function kvStore(): KvStore {
+    return new KvStore(env.AUTH_KV, env.COORDINATOR);
+}
+
+async function singleUseCode(store: KvStore, keyring: Keyring): Promise<[string, string]> {
+    const name = `product-${crypto.randomUUID()}`;
+    const [created, productId] = await Product.set(store, name);
+    expect(created).toBe(true);
+
+    const [generated, code] = await Code.gent(store, keyring, name, 3600, 3600, 1);
+    expect(generated).toBe(true);
+    return [productId, code];
+}
+
+describe("Code key id prefix", () => {
+    it("counts the bare and prefixed forms of a code as one code", async () => {
+        const store = kvStore();
+        const keyring = Keyring.fromEnv(env);
+        const [productId, code] = await singleUseCode(store, keyring);
+        const bare = code.slice(code.indexOf(".") + 1);
+
+        expect(await Code.canonicalHash(store, keyring, bare)).toBe(await Code.canonicalHash(store, keyring, code));
+
+        const [first] = await Code.auth(store, keyring, code, productId, "device-a");
+        expect(first).toBe(true);
+
+        const [second] = await Code.auth(store, keyring, bare, productId, "device-b");
+        expect(second).toBe(false);
+    });
+
+    it("rejects the bare form of a revoked code", async () => {
+        const store = kvStore();
+        const keyring = Keyring.fromEnv(env);
+        const [productId, code] = await singleUseCode(store, keyring);
+        const bare = code.slice(code.indexOf(".") + 1);
+
+        await Revocation.revoke(store.kv, await Code.canonicalHash(store, keyring, code));
+
+        const [success] = await Code.auth(store, keyring, bare, productId, "device-a");
+        expect(success).toBe(false);
+    });
+
+    it("keeps a code used before key ids on its prefix-less records", async () => {
+        const store = kvStore();
+        const keyring = Keyring.fromEnv(env);
+        const [productId, code] = await singleUseCode(store, keyring);
+        const bare = code.slice(code.indexOf(".") + 1);
+
+        await store.incrementUsed(await Code.codeHash(bare), 1);
+
+        expect(await Code.canonicalHash(store, keyring, code)).toBe(await Code.codeHash(bare));
+        const [success] = await Code.auth(store, keyring, code, productId, "device-a");
+        expect(success).toBe(false);
+    });
+});
+
+describe("Code.trial", () => {
+    async function trialProduct(store: KvStore): Promise<string> {
+        const [created, productId] = await Product.set(store, `trial-${crypto.randomUUID()}`);
+        expect(created).toBe(true);
+        expect(await Product.setTrial(store, productId, { duration: 3600, features: ["pro"] })).toBe(true);
+        return productId;
+    }
+
+    async function countUsed(store: KvStore): Promise<number> {
+        return (await store.kv.list({ prefix: "C:" })).keys.length;
+    }
+
+    it("issues a trial code that can re-authenticate", async () => {
+        const store = kvStore();
+        const productId = await trialProduct(store);
+
+        const [success, code, uuid, , features, license] = await Code.trial(store, productId, "device-a");
+        expect(success).toBe(true);
+        expect(code.startsWith("trial.")).toBe(true);
+        expect(features).toEqual(["pro"]);
+        expect(license).not.toBe("");
+
+        const [again] = await Code.authAgain(store, Keyring.fromEnv(env), code, uuid, "device-a");
+        expect(again).toBe(true);
+    });
+
+    it("refuses a second trial on the same binding without leaving records", async () => {
+        const store = kvStore();
+        const productId = await trialProduct(store);
+
+        const [first] = await Code.trial(store, productId, "device-a");
+        expect(first).toBe(true);
+
+        const used = await countUsed(store);
+        const [second, code, uuid] = await Code.trial(store, productId, "device-a");
+        expect([second, code, uuid]).toEqual([false, "", ""]);
+        expect(await countUsed(store)).toBe(used);
+    });
+});
@@ -0,0 +1,42 @@
+﻿import {describe, expect, it} from "vitest";
+import {CodeMeta} from "../src/tool/codeMeta";
+import {CONFIG} from "../src/config";
+
+/** 序列化后恰好为 bytes 字节的单字段附加信息 */
+function fieldsOfSize(bytes: number): Record<string, string> {
+    const overhead = JSON.stringify({ note: "" }).length;
+    return { note: "x".repeat(bytes - overhead) };
+}
+
+describe("CodeMeta.isValid", () => {
+    it("accepts string fields with word-like names", () => {
+        expect(CodeMeta.isValid({})).toBe(true);
+        expect(CodeMeta.isValid({ email: "buyer@example.com", order_id: "SO-1001", "ref-2": "" })).toBe(true);
+    });
+
+    it("rejects non-objects", () => {
+        for (const fields of [null, undefined, "note", 1, ["a"]]) {
+            expect(CodeMeta.isValid(fields)).toBe(false);
+        }
+    });
+
+    it("rejects non-string values", () => {
+        expect(CodeMeta.isValid({ count: 1 })).toBe(false);
+        expect(CodeMeta.isValid({ note: null })).toBe(false);
+        expect(CodeMeta.isValid({ note: { nested: "x" } })).toBe(false);
+    });
+
+    it("rejects invalid field names", () => {
+        expect(CodeMeta.isValid({ "": "x" })).toBe(false);
+        expect(CodeMeta.isValid({ "a b": "x" })).toBe(false);
+        expect(CodeMeta.isValid({ "<img>": "x" })).toBe(false);
+        expect(CodeMeta.isValid({ ["a".repeat(33)]: "x" })).toBe(false);
+    });
+
+    it("limits the serialized size in bytes", () => {
+        expect(CodeMeta.isValid(fieldsOfSize(CONFIG.CODE_META_MAX_BYTES))).toBe(true);
+        expect(CodeMeta.isValid(fieldsOfSize(CONFIG.CODE_META_MAX_BYTES + 1))).toBe(false);
+        // 多字节字符按 UTF-8 字节计
+        expect(CodeMeta.isValid({ note: "中".repeat(CONFIG.CODE_META_MAX_BYTES / 3) })).toBe(false);
+    });
+});
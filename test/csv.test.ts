@@ -0,0 +1,34 @@
+﻿import {describe, expect, it} from "vitest";
+import {Csv} from "../src/tool/csv";
+
+describe("Csv", () => {
+    it("joins rows with CRLF and ends with a line break", () => {
+        expect(Csv.format([["code", "label"], ["A", ""], ["B", "x"]])).toBe("code,label\r\nA,\r\nB,x\r\n");
+    });
+
+    it("leaves plain cells untouched", () => {
+        expect(Csv.cell("ABCD-1234")).toBe("ABCD-1234");
+        expect(Csv.cell("经销商 X 三月")).toBe("经销商 X 三月");
+        expect(Csv.cell("")).toBe("");
+    });
+
+    it("quotes cells with commas, quotes and line breaks", () => {
+        expect(Csv.cell("a,b")).toBe('"a,b"');
+        expect(Csv.cell('Reseller "X"')).toBe('"Reseller ""X"""');
+        expect(Csv.cell("a\nb")).toBe('"a\nb"');
+        expect(Csv.cell("a\r\nb")).toBe('"a\r\nb"');
+    });
+
+    it("prefixes cells that spreadsheets would treat as formulas", () => {
+        expect(Csv.cell("=1+1")).toBe("'=1+1");
+        expect(Csv.cell("+1")).toBe("'+1");
+        expect(Csv.cell("-1")).toBe("'-1");
+        expect(Csv.cell("@SUM(A1)")).toBe("'@SUM(A1)");
+        expect(Csv.cell('=HYPERLINK("http://x","y")')).toBe('"\'=HYPERLINK(""http://x"",""y"")"');
+    });
+
+    it("only checks the first character for formulas", () => {
+        expect(Csv.cell("a=1")).toBe("a=1");
+        expect(Csv.cell(" =1")).toBe(" =1");
+    });
+});
@@ -0,0 +1,5 @@
+declare module "cloudflare:test" {
+    interface ProvidedEnv extends CloudflareBindings {
+        TEST_MIGRATIONS: D1Migration[];
+    }
+}
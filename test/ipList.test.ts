@@ -0,0 +1,106 @@
+﻿import {describe, expect, it, vi} from "vitest";
+import {IpList} from "../src/tool/ipList";
+
+function allows(list: string, ip: string): boolean {
+    const [ranges, invalid] = IpList.parse(list);
+    expect(invalid).toEqual([]);
+    return IpList.matches(ranges, ip);
+}
+
+describe("IpList.parse", () => {
+    it("splits on commas and semicolons and reports invalid entries", () => {
+        const [ranges, invalid] = IpList.parse(
+            " 1.2.3.4, 10.0.0.0/8; 2001:db8::/32,,bad, 1.2.3.4/33, 01.2.3.4, 1.2.3.256, 1::2::3, 10.0.0.0/8/1, 2001:db8::/129"
+        );
+        expect(ranges.map(r => r.prefix)).toEqual([32, 8, 32]);
+        expect(invalid).toEqual(["bad", "1.2.3.4/33", "01.2.3.4", "1.2.3.256", "1::2::3", "10.0.0.0/8/1", "2001:db8::/129"]);
+    });
+
+    it("rejects malformed IPv6 addresses", () => {
+        const [, invalid] = IpList.parse("1:2:3:4:5:6:7, 1:2:3:4:5:6:7:8:9, 1:2:3:4:5:6:7::8, 12345::1, g::1, 1.2.3.4::1");
+        expect(invalid).toHaveLength(6);
+    });
+});
+
+describe("IpList.matches", () => {
+    it("matches single IPv4 addresses exactly", () => {
+        expect(allows("1.2.3.4", "1.2.3.4")).toBe(true);
+        expect(allows("1.2.3.4", "1.2.3.5")).toBe(false);
+    });
+
+    it("matches IPv4 CIDR ranges at their boundaries", () => {
+        expect(allows("10.0.0.0/8", "10.255.255.255")).toBe(true);
+        expect(allows("10.0.0.0/8", "11.0.0.0")).toBe(false);
+        expect(allows("192.168.1.0/23", "192.168.0.5")).toBe(true);
+        expect(allows("192.168.1.0/23", "192.168.1.200")).toBe(true);
+        expect(allows("192.168.1.0/23", "192.168.2.1")).toBe(false);
+        expect(allows("0.0.0.0/0", "203.0.113.9")).toBe(true);
+    });
+
+    it("treats different IPv6 spellings as the same address", () => {
+        expect(allows("2001:DB8::1", "2001:0db8:0000:0000:0000:0000:0000:0001")).toBe(true);
+        expect(allows("2001:0db8::0001", "2001:db8:0:0:0:0:0:1")).toBe(true);
+        expect(allows("2001:db8::1", "[2001:db8::1]")).toBe(true);
+        expect(allows("fe80::1", "fe80::1%eth0")).toBe(true);
+        expect(allows("2001:db8::1", "2001:db8::2")).toBe(false);
+    });
+
+    it("matches IPv6 CIDR ranges at their boundaries", () => {
+        expect(allows("2001:db8::/32", "2001:db8:ffff:ffff::1")).toBe(true);
+        expect(allows("2001:db8::/32", "2001:db9::1")).toBe(false);
+        expect(allows("2001:db8::/127", "2001:db8::1")).toBe(true);
+        expect(allows("2001:db8::/127", "2001:db8::2")).toBe(false);
+    });
+
+    it("handles IPv4-mapped IPv6 addresses as IPv4", () => {
+        expect(allows("10.0.0.0/8", "::ffff:10.1.2.3")).toBe(true);
+        expect(allows("10.0.0.0/8", "::ffff:0a01:0203")).toBe(true);
+        expect(allows("::ffff:10.0.0.0/104", "10.9.9.9")).toBe(true);
+        expect(allows("::ffff:10.0.0.0/104", "11.0.0.1")).toBe(false);
+    });
+
+    it("never matches across address families or unparseable addresses", () => {
+        expect(allows("0.0.0.0/0", "2001:db8::1")).toBe(false);
+        expect(allows("::/0", "1.2.3.4")).toBe(false);
+        expect(allows("0.0.0.0/0", "not-an-ip")).toBe(false);
+        expect(allows("0.0.0.0/0", "")).toBe(false);
+    });
+});
+
+describe("IpList.normalize", () => {
+    it("formats IPv6 per RFC 5952", () => {
+        expect(IpList.normalize("2001:0DB8:0000:0000:0000:0000:0002:0001")).toBe("2001:db8::2:1");
+        expect(IpList.normalize("2001:db8:0:0:1:0:0:1")).toBe("2001:db8::1:0:0:1");
+        expect(IpList.normalize("2001:db8:0:1:1:1:1:1")).toBe("2001:db8:0:1:1:1:1:1");
+        expect(IpList.normalize("::")).toBe("::");
+        expect(IpList.normalize("::1")).toBe("::1");
+        expect(IpList.normalize("1::")).toBe("1::");
+        expect(IpList.normalize("[fe80::A%eth0]")).toBe("fe80::a");
+    });
+
+    it("returns IPv4 and mapped addresses in dotted form", () => {
+        expect(IpList.normalize(" 1.2.3.4 ")).toBe("1.2.3.4");
+        expect(IpList.normalize("::ffff:1.2.3.4")).toBe("1.2.3.4");
+    });
+
+    it("returns null for invalid addresses", () => {
+        expect(IpList.normalize("1.2.3.256")).toBeNull();
+        expect(IpList.normalize("1:2:3")).toBeNull();
+        expect(IpList.normalize("unknown")).toBeNull();
+    });
+});
+
+describe("IpList.fromConfig", () => {
+    it("caches the parsed list and reports invalid entries once", () => {
+        const error = vi.spyOn(console, "error").mockImplementation(() => {});
+        const list = "10.0.0.0/8, nope";
+
+        const first = IpList.fromConfig(list);
+        expect(IpList.fromConfig(list)).toBe(first);
+        expect(first).toHaveLength(1);
+        expect(error).toHaveBeenCalledTimes(1);
+
+        expect(IpList.fromConfig("1.2.3.4")).not.toBe(first);
+        error.mockRestore();
+    });
+});
@@ -0,0 +1,41 @@
+﻿/// <reference types="@cloudflare/vitest-pool-workers" />
+import {env, runInDurableObject} from "cloudflare:test";
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {Coordinator} from "../src/tool/lock";
+
+function stub(name: string) {
+    return env.COORDINATOR.get(env.COORDINATOR.idFromName(name));
+}
+
+describe("Coordinator.claim", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("keeps the first value until it expires and then deletes it", async () => {
+        await runInDurableObject(stub(`claim-${crypto.randomUUID()}`), async (instance: Coordinator, state) => {
+            const expiresAt = Date.now() + 60_000;
+            expect(await instance.claim("first", expiresAt)).toBe("first");
+            expect(await instance.claim("second", expiresAt)).toBe("first");
+            expect(await state.storage.getAlarm()).toBe(expiresAt);
+
+            // 直接调用闹钟处理函数，避免真实闹钟与测试并发
+            await state.storage.deleteAlarm();
+            vi.setSystemTime(expiresAt);
+            await instance.alarm();
+
+            expect((await state.storage.list()).size).toBe(0);
+            expect(await instance.claim("third")).toBe("third");
+        });
+    });
+
+    it("keeps a value without expiry", async () => {
+        await runInDurableObject(stub(`claim-${crypto.randomUUID()}`), async (instance: Coordinator, state) => {
+            expect(await instance.claim("first")).toBe("first");
+            expect(await state.storage.getAlarm()).toBeNull();
+
+            await instance.alarm();
+            expect(await instance.claim("second")).toBe("first");
+        });
+    });
+});
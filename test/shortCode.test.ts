@@ -0,0 +1,72 @@
+﻿import {describe, expect, it} from "vitest";
+import {ShortCode} from "../src/tool/shortCode";
+
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CHECK_SYMBOLS = `${ALPHABET}*~$=U`;
+
+/** 为给定的 19 位主体找出唯一有效的校验位 */
+function withCheck(body: string): string {
+    const valid = [...CHECK_SYMBOLS].filter(c => ShortCode.normalize(body + c) !== null);
+    expect(valid).toHaveLength(1);
+    return body + valid[0];
+}
+
+function strip(code: string): string {
+    return code.replace(/-/g, "");
+}
+
+describe("ShortCode", () => {
+    it("generates grouped codes that normalize to themselves", () => {
+        for (let i = 0; i < 50; i++) {
+            const code = ShortCode.generate();
+            expect(code).toMatch(/^[0-9A-Z]{5}-[0-9A-Z]{5}-[0-9A-Z]{5}-[0-9A-Z]{4}[0-9A-Z*~$=]$/);
+            expect(ShortCode.looksShort(code)).toBe(true);
+            expect(ShortCode.normalize(code)).toBe(code);
+        }
+    });
+
+    it("accepts lowercase, spaces and Crockford aliases", () => {
+        const code = strip(withCheck("0I1L0O1000000000000"));
+        const normalized = ShortCode.normalize(code);
+        expect(normalized).not.toBeNull();
+        expect(ShortCode.normalize(` ${code.toLowerCase().slice(0, 10)} ${code.slice(10)} `)).toBe(normalized);
+    });
+
+    it("rejects every single-character substitution", () => {
+        for (let i = 0; i < 20; i++) {
+            const code = strip(ShortCode.generate());
+            for (let pos = 0; pos < code.length; pos++) {
+                for (const c of CHECK_SYMBOLS) {
+                    if (c === code[pos]) continue;
+                    const typo = code.slice(0, pos) + c + code.slice(pos + 1);
+                    expect(ShortCode.normalize(typo), typo).toBeNull();
+                }
+            }
+        }
+    });
+
+    it("rejects a 0 to Z substitution", () => {
+        const code = withCheck("0000000000000000000");
+        expect(ShortCode.normalize(`Z${code.slice(1)}`)).toBeNull();
+        expect(ShortCode.normalize(`${code.slice(0, 18)}Z${code.slice(19)}`)).toBeNull();
+    });
+
+    it("rejects adjacent transpositions", () => {
+        for (let i = 0; i < 20; i++) {
+            const code = strip(ShortCode.generate());
+            for (let pos = 0; pos < code.length - 1; pos++) {
+                if (code[pos] === code[pos + 1]) continue;
+                const swapped = code.slice(0, pos) + code[pos + 1] + code[pos] + code.slice(pos + 2);
+                expect(ShortCode.normalize(swapped), swapped).toBeNull();
+            }
+        }
+    });
+
+    it("rejects wrong lengths and characters outside the alphabet", () => {
+        const code = strip(ShortCode.generate());
+        expect(ShortCode.normalize(code.slice(1))).toBeNull();
+        expect(ShortCode.normalize(`${code}0`)).toBeNull();
+        expect(ShortCode.normalize(`*${code.slice(1)}`)).toBeNull();
+        expect(ShortCode.looksShort("not-a-short-code")).toBe(false);
+    });
+});
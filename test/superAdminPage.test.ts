@@ -0,0 +1,84 @@
+﻿/// <reference types="vite/client" />
+import {describe, expect, it, vi} from "vitest";
+import PAGE from "../src/html/superAdminPage.html?raw";
+
+const HOSTILE = `<img src=x onerror="alert(1)">'\``;
+
+/** 从控制台页面脚本中截取一个函数的源码（按花括号配对） */
+function functionSource(name: string): string {
+    const start = PAGE.indexOf(`function ${name}(`);
+    expect(start).toBeGreaterThanOrEqual(0);
+
+    let depth = 0;
+    for (let i = PAGE.indexOf("{", start); i < PAGE.length; i++) {
+        if (PAGE[i] === "{") depth++;
+        if (PAGE[i] === "}" && --depth === 0) return PAGE.slice(start, i + 1);
+    }
+    throw new Error(`Unterminated function ${name}`);
+}
+
+/** 在给定的全局变量下执行页面函数 */
+function load<T>(name: string, globals: Record<string, unknown> = {}): T {
+    const names = Object.keys(globals);
+    const sources = ["escapeHtml", name].map(functionSource).join("\n");
+    return new Function(...names, `${sources}\nreturn ${name};`)(...names.map(n => globals[n])) as T;
+}
+
+/** 只记录 innerHTML 的表格 */
+function fakeTbody() {
+    return { innerHTML: "", querySelectorAll: () => [] };
+}
+
+describe("escapeHtml", () => {
+    const escapeHtml = load<(value: unknown) => string>("escapeHtml");
+
+    it("escapes markup and quote characters", () => {
+        expect(escapeHtml(`<a href="x" title='y'>&</a>`))
+            .toBe("&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;");
+    });
+
+    it("stringifies non-string values", () => {
+        expect(escapeHtml(42)).toBe("42");
+    });
+});
+
+describe("renderBatchList", () => {
+    it("escapes the label and does not build inline handlers", () => {
+        const tbody = fakeTbody();
+        const render = load<(batches: object[]) => void>("renderBatchList", {
+            $: () => tbody,
+            products: [{ id: "p1", name: HOSTILE }],
+            exportBatch: vi.fn(),
+            revokeBatch: vi.fn()
+        });
+
+        render([{ id: "b1');alert(1);//", label: HOSTILE, productId: "p1", count: 1, createdDate: 0 }]);
+
+        expect(tbody.innerHTML).not.toContain("<img");
+        expect(tbody.innerHTML).not.toContain("onclick");
+        expect(tbody.innerHTML).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;&#39;`");
+        expect(tbody.innerHTML).toContain("b1&#39;);alert(1);//");
+    });
+});
+
+describe("renderSearchResults", () => {
+    it("escapes metadata, product names and batch ids", () => {
+        const tbody = fakeTbody();
+        const render = load<(results: object[]) => void>("renderSearchResults", { $: () => tbody });
+
+        render([{
+            codeHash: "a".repeat(64),
+            productId: "p1",
+            productName: HOSTILE,
+            fields: { note: HOSTILE, [HOSTILE]: "x" },
+            batchId: HOSTILE,
+            createdDate: 0,
+            used: 0,
+            activations: [],
+            revoked: false
+        }]);
+
+        expect(tbody.innerHTML).not.toContain("<img");
+        expect(tbody.innerHTML.match(/&lt;img src=x onerror=&quot;alert\(1\)&quot;&gt;&#39;`/g)).toHaveLength(4);
+    });
+});
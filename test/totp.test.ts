@@ -0,0 +1,99 @@
+﻿/// <reference types="@cloudflare/vitest-pool-workers" />
+import {env} from "cloudflare:test";
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {Totp} from "../src/tool/totp";
+import {AdminSession} from "../src/tool/adminSession";
+import {KvStore} from "../src/store/kv";
+import {D1Store} from "../src/store/d1";
+import type {IStore} from "../src/store/store";
+
+/** RFC 6238 附录 B 的 SHA-1 密钥 "12345678901234567890" */
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+/** RFC 6238 附录 B 的 SHA-1 测试向量：[Unix 时间（秒）, 8 位验证码]，6 位验证码为其后 6 位 */
+const RFC_VECTORS: [number, string][] = [
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+    [20000000000, "65353130"]
+];
+
+describe("Totp.generate", () => {
+    it("matches the RFC 6238 SHA-1 test vectors", async () => {
+        for (const [time, code] of RFC_VECTORS) {
+            expect(await Totp.generate(RFC_SECRET, Totp.step(time * 1000))).toBe(code.slice(-6));
+        }
+    });
+
+    it("round-trips generated secrets", async () => {
+        const secret = Totp.generateSecret();
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(await Totp.generate(secret, 1)).toMatch(/^\d{6}$/);
+    });
+});
+
+describe("Totp.verify", () => {
+    const NOW = 1111111111 * 1000;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("accepts the current and adjacent steps", async () => {
+        const step = Totp.step(NOW);
+        for (const s of [step - 1, step, step + 1]) {
+            expect(await Totp.verify(RFC_SECRET, await Totp.generate(RFC_SECRET, s), 0)).toBe(s);
+        }
+    });
+
+    it("rejects steps outside the window, used steps and malformed codes", async () => {
+        const step = Totp.step(NOW);
+        expect(await Totp.verify(RFC_SECRET, await Totp.generate(RFC_SECRET, step + 2), 0)).toBe(-1);
+        expect(await Totp.verify(RFC_SECRET, await Totp.generate(RFC_SECRET, step), step)).toBe(-1);
+        expect(await Totp.verify(RFC_SECRET, "12345", 0)).toBe(-1);
+        expect(await Totp.verify(RFC_SECRET, "abcdef", 0)).toBe(-1);
+    });
+});
+
+describe.each([
+    ["KV", () => new KvStore(env.AUTH_KV, env.COORDINATOR)],
+    ["D1", () => new D1Store(env.AUTH_DB!, env.AUTH_KV, env.COORDINATOR)]
+])("AdminSession.verifyTotp on %s", (_, createStore: () => IStore) => {
+    it("confirms the enrolment and rejects a replayed code", async () => {
+        const store = createStore();
+        const totp = (await AdminSession.enroll(store, "replay"))!;
+        const code = await Totp.generate(totp.secret, Totp.step());
+
+        expect(await AdminSession.verifyTotp(store, totp, code)).toBe(true);
+        expect(await AdminSession.isTotpEnrolled(store, "replay")).toBe(true);
+        expect(await AdminSession.verifyTotp(store, totp, code)).toBe(false);
+    });
+
+    it("accepts a code only once under concurrent logins", async () => {
+        const store = createStore();
+        const totp = (await AdminSession.enroll(store, "race"))!;
+        const code = await Totp.generate(totp.secret, Totp.step());
+
+        const results = await Promise.all(
+            Array.from({ length: 5 }, () => AdminSession.verifyTotp(store, totp, code))
+        );
+        expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it("rejects a code checked against a secret that has since been reset", async () => {
+        const store = createStore();
+        const totp = (await AdminSession.enroll(store, "reset"))!;
+        await store.deleteAdminTotp("reset");
+        await AdminSession.enroll(store, "reset");
+
+        expect(await AdminSession.verifyTotp(store, totp, await Totp.generate(totp.secret, Totp.step()))).toBe(false);
+        expect(await AdminSession.isTotpEnrolled(store, "reset")).toBe(false);
+    });
+});
@@ -0,0 +1,17 @@
+import {defineWorkersConfig, readD1Migrations} from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig(async () => ({
+    test: {
+        setupFiles: ["./test/setup.ts"],
+        poolOptions: {
+            workers: {
+                wrangler: { configPath: "./wrangler.jsonc" },
+                miniflare: {
+                    // wrangler.jsonc 未配置 D1，测试中另建一个应用全部迁移的本地库
+                    d1Databases: ["AUTH_DB"],
+                    bindings: { TEST_MIGRATIONS: await readD1Migrations("./migrations") }
+                }
+            }
+        }
+    }
+}));
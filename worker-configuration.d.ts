@@ -4,13 +4,18 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "Coordinator";
 	}
 	interface Env {
 		AUTH_KV: KVNamespace;
 		SERVER_KEY: string;
+		SERVER_KEY_ID?: string;
+		SERVER_KEYS_RETIRED?: string;
 		SUPER_ADMIN_IP: string;
 		SUPER_ADMIN_KEY: string;
 		ASSETS: Fetcher;
+		COORDINATOR: DurableObjectNamespace<import("./src/index").Coordinator>;
+		AUTH_DB?: D1Database;
 	}
 }
 interface CloudflareBindings extends Cloudflare.Env {}